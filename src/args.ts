@@ -0,0 +1,93 @@
+
+import { TOOLS } from './tools/definitions';
+
+export interface CliOptions {
+    /** -p / --print: run one prompt without the UI */
+    print: boolean;
+    prompt?: string;
+    /** Read stdin as the prompt, or append it: no prompt given, or `-` among the arguments */
+    readStdin: boolean;
+    /** Tools allowed without prompting in -p mode, from --allow */
+    allow: string[];
+    /** --yes: allow every tool in -p mode */
+    yes: boolean;
+    /** --events: NDJSON event log file, or '-' for stdout */
+    events?: string;
+    help: boolean;
+}
+
+export const USAGE = `Usage: cloudecode [--events <file>]
+       cloudecode -p "prompt" [--allow tool1,tool2] [--yes] [--events <file|->]
+       echo "prompt" | cloudecode -p [options]
+       cat error.log | cloudecode -p "explain this" - [options]
+
+  -p, --print        Run the prompt non-interactively and print the final answer
+  --allow <tools>    Comma-separated tools to allow, e.g. run_command,write_file
+  -y, --yes          Allow every tool call (configured deny rules still apply)
+  --events <file|->  Append an NDJSON event log to a file, or stream it to stdout (-p only)
+  -h, --help         Show this help`;
+
+/** Parse command-line arguments. Throws on anything malformed. */
+export function parseCliArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { print: false, readStdin: false, allow: [], yes: false, help: false };
+    const positional: string[] = [];
+
+    // Value of an option given as `--name value` or `--name=value`
+    const optionValue = (arg: string, name: string, i: number): [string, number] => {
+        const value = arg === name ? argv[i + 1] : arg.substring(name.length + 1);
+        if (!value) throw new Error(`${name} needs a value`);
+        return [value, arg === name ? i + 1 : i];
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-p' || arg === '--print') {
+            options.print = true;
+            // Optional value: the prompt may also come from stdin
+            if (argv[i + 1] === '-') {
+                options.readStdin = true;
+                i++;
+            } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('-')) {
+                positional.push(argv[++i]);
+            }
+        } else if (arg === '-') {
+            options.readStdin = true;
+        } else if (arg === '-y' || arg === '--yes') {
+            options.yes = true;
+        } else if (arg === '-h' || arg === '--help') {
+            options.help = true;
+        } else if (arg === '--allow' || arg.startsWith('--allow=')) {
+            const [value, next] = optionValue(arg, '--allow', i);
+            options.allow.push(...value.split(',').map(t => t.trim()).filter(Boolean));
+            i = next;
+        } else if (arg === '--events' || arg.startsWith('--events=')) {
+            const [value, next] = optionValue(arg, '--events', i);
+            options.events = value;
+            i = next;
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option: ${arg}`);
+        } else {
+            positional.push(arg);
+        }
+    }
+
+    if (positional.length > 0) options.prompt = positional.join(' ');
+    // Without a prompt argument stdin is the prompt; with one it is only read when asked for,
+    // since stdin may be an open pipe that never ends (CI, ssh, process supervisors)
+    if (options.prompt === undefined) options.readStdin = true;
+
+    if (!options.print) {
+        if (options.prompt !== undefined) throw new Error(`Unexpected argument: ${options.prompt} (use -p to run a prompt)`);
+        if (argv.includes('-')) throw new Error('- (read stdin) only applies with -p');
+        if (options.allow.length > 0 || options.yes) throw new Error('--allow and --yes only apply with -p');
+        if (options.events === '-') throw new Error('--events - needs -p (stdout is used by the interface)');
+    }
+
+    const known = TOOLS.map(t => t.name);
+    const unknown = options.allow.filter(t => !known.includes(t));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown tool in --allow: ${unknown.join(', ')}\nAvailable: ${known.join(', ')}`);
+    }
+
+    return options;
+}
@@ -6,28 +6,58 @@ import App from './components/App';
 import { clearScreen, printBranding } from './branding';
 import { registerInkClear } from './core/ink';
 import { config } from './core/config';
+import { eventLog } from './core/events';
+import { parseCliArgs, CliOptions, USAGE } from './args';
+import { runHeadless, EXIT_ERROR, EXIT_USAGE } from './headless';
 
-clearScreen();
+function startInteractive() {
+    clearScreen();
 
-// Print branding raw (outside Ink's tracking) for setup view
-const _prov = config.config.provider || 'groq';
-const _conf = config.getProviderConfig(_prov);
-if (!(_conf?.apiKey && _conf?.model)) {
-    printBranding();
-}
+    // Print branding raw (outside Ink's tracking) for setup view
+    const _prov = config.config.provider || 'groq';
+    const _conf = config.getProviderConfig(_prov);
+    if (!(_conf?.apiKey && _conf?.model)) {
+        printBranding();
+    }
+
+    // Render with proper Ink configuration
+    const { unmount, clear } = render(<App />, {
+        exitOnCtrlC: true,
+        patchConsole: false,
+        debug: false
+    });
+
+    // Let components use Ink-aware screen clearing
+    registerInkClear(clear);
 
-// Render with proper Ink configuration
-const { unmount, clear, waitUntilExit } = render(<App />, {
-    exitOnCtrlC: true,
-    patchConsole: false,
-    debug: false
-});
+    // Handle cleanup
+    process.on('SIGINT', () => {
+        unmount();
+        process.exit(0);
+    });
+}
 
-// Let components use Ink-aware screen clearing
-registerInkClear(clear);
+let options: CliOptions;
+try {
+    options = parseCliArgs(process.argv.slice(2));
+    if (options.events) eventLog.open(options.events);
+} catch (err: any) {
+    process.stderr.write(`${err?.message || err}\n\n${USAGE}\n`);
+    process.exit(EXIT_USAGE);
+}
 
-// Handle cleanup
-process.on('SIGINT', () => {
-    unmount();
+if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
     process.exit(0);
-});
+} else if (options.print) {
+    // `-p` runs a single prompt without the UI (scripts, CI)
+    runHeadless(options).then(
+        code => process.exit(code),
+        err => {
+            process.stderr.write(`Error: ${err?.message || err}\n`);
+            process.exit(EXIT_ERROR);
+        }
+    );
+} else {
+    startInteractive();
+}
@@ -1,39 +1,55 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Box, Text, Static, useInput } from 'ink';
+import path from 'path';
+import { Box, Text, Static, useInput, useStdin } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
 import { config } from '../core/config';
 import { getProvider } from '../core/factory';
-import { Message } from '../core/types';
+import { Message, PermissionDecision, ImagePart } from '../core/types';
+import { DiffResult } from '../core/diff';
 import { BaseProvider } from '../providers/base';
+import { providerRegistry } from '../providers/registry';
 import { ToolExecutor } from '../tools/execution';
-import { TOOLS } from '../tools/definitions';
 import { SystemPromptManager } from '../core/prompt';
-import { getContextUsage, ContextUsage } from '../core/context';
+import { getContextUsage, ContextUsage, formatTokens } from '../core/context';
 import { LOGO_LINES, TAGLINE } from '../branding';
 import { fullClear } from '../core/ink';
-import { estimateTokens, estimateMessageTokens } from '../core/context';
 import { SessionManager } from '../core/session';
+import { checkpoints, RevertResult } from '../core/checkpoints';
+import { evaluatePermission, suggestPattern, formatRule, DANGEROUS_TOOLS } from '../core/permissions';
+import { Agent } from '../core/agent';
+import { eventLog } from '../core/events';
+import { costLedger, formatCost } from '../core/cost';
+import { loadImage, loadImageMentions } from '../core/images';
+import { supportsVision, visionError } from '../core/models';
 
 const executor = new ToolExecutor();
-const MAX_TOOL_DEPTH = 15;
 const CONTEXT_THRESHOLD = 90; // auto-summarize at 90%
-const SEND_BUDGET_RATIO = 0.80; // use max 80% of limit for input, leave 20% for response
-
-const DANGEROUS_TOOLS = ['run_command', 'write_file', 'stop_process'];
+const STREAM_RENDER_INTERVAL_MS = 50; // throttle re-renders while a response streams in
+const STREAM_PREVIEW_LINES = 20; // live message shows only its tail; the full text goes to <Static>
 
 const SLASH_COMMANDS = [
     { cmd: '/key',      desc: 'Change API key (enter new key inline)' },
     { cmd: '/reset',    desc: 'Reset API key & return to setup' },
     { cmd: '/clear',    desc: 'Clear chat history' },
     { cmd: '/restore',  desc: 'Restore context from last backup' },
+    { cmd: '/undo',     desc: 'Revert file changes from the last turn' },
+    { cmd: '/checkpoints', desc: 'List file checkpoints' },
+    { cmd: '/rewind',   desc: 'Revert the last <n> checkpoints (/rewind 3)' },
+    { cmd: '/plan',     desc: 'Toggle read-only plan mode (Shift+Tab)' },
+    { cmd: '/thinking', desc: 'Show or hide model reasoning (Ctrl+O)' },
     { cmd: '/model',    desc: 'Change model (shows available list)' },
+    { cmd: '/cost',     desc: 'Show session cost per turn' },
+    { cmd: '/image',    desc: 'Attach an image to the next message (/image shot.png, /image clear)' },
     { cmd: '/provider', desc: 'Return to Provider Setup' },
     { cmd: '/exit',     desc: 'Exit Cloude Code' },
     { cmd: '/help',     desc: 'Show available commands' },
 ];
 
+// Image path relative to the working directory, for the transcript
+const imageName = (image: ImagePart) => image.source ? path.relative(process.cwd(), image.source) || image.source : 'image';
+
 interface ChatProps {
     onReset: () => void;
     onClear: () => void;
@@ -44,9 +60,168 @@ interface ChatProps {
 type PermissionPrompt = {
     toolName: string;
     args: Record<string, any>;
-    resolve: (allowed: boolean) => void;
+    /** Prospective diff for write_file / edit_file, computed before execution */
+    diff?: DiffResult | null;
+    /** Pattern offered for "always allow", e.g. `npm test*` */
+    suggestedPattern?: string;
+    resolve: (decision: PermissionDecision) => void;
 };
 
+// Summarize a checkpoint revert for the chat log
+function describeRevert(result: RevertResult): string {
+    if (result.checkpoints === 0) return 'No checkpoints to revert.';
+    const cwd = process.cwd();
+    const rel = (p: string) => p.startsWith(cwd) ? p.substring(cwd.length + 1) : p;
+    const lines = [`Reverted ${result.checkpoints} checkpoint${result.checkpoints === 1 ? '' : 's'}.`];
+    if (result.restored.length) lines.push(`Restored: ${result.restored.map(rel).join(', ')}`);
+    if (result.deleted.length) lines.push(`Deleted: ${result.deleted.map(rel).join(', ')}`);
+    if (result.failed.length) lines.push(`Failed: ${result.failed.map(rel).join(', ')}`);
+    if (result.kept.length) {
+        lines.push(`Kept checkpoint${result.kept.length === 1 ? '' : 's'} ${result.kept.join(', ')} in .cloude/checkpoints/ so the failed files can still be recovered.`);
+    }
+    return lines.join('\n');
+}
+
+type DiffRow = {
+    type: 'hunk' | 'add' | 'del' | 'context' | 'summary';
+    lineOld?: number;
+    lineNew?: number;
+    content: string;
+    highlights?: [number, number][];
+};
+
+// Render a line with word-level highlighting
+function renderHighlightedLine(content: string, baseColor: string, highlights?: [number, number][]) {
+    if (!highlights || highlights.length === 0) {
+        return <Text color={baseColor}>{content}</Text>;
+    }
+    const parts: React.ReactElement[] = [];
+    let pos = 0;
+    for (let hi = 0; hi < highlights.length; hi++) {
+        const [start, len] = highlights[hi];
+        if (start > pos) {
+            parts.push(<Text key={`n${hi}`} color={baseColor}>{content.substring(pos, start)}</Text>);
+        }
+        const hlBg = baseColor === '#FF6B6B' ? '#5c1a1a' : '#1a3a1a';
+        parts.push(<Text key={`h${hi}`} color={baseColor} bold backgroundColor={hlBg}>{content.substring(start, start + len)}</Text>);
+        pos = start + len;
+    }
+    if (pos < content.length) {
+        parts.push(<Text key="rest" color={baseColor}>{content.substring(pos)}</Text>);
+    }
+    return <>{parts}</>;
+}
+
+// Unified diff block with OLD | NEW | SIGN gutter — used for WRITE/EDIT results and the permission preview
+function renderDiffRows(rows: DiffRow[], maxDisplayLines: number) {
+    const displayRows = rows.slice(0, maxDisplayLines);
+    const hasMore = rows.length > maxDisplayLines;
+    if (displayRows.length === 0) return null;
+
+    // Compute line number column width based on max line number in display
+    let maxLineNum = 1;
+    for (const r of displayRows) {
+        if (r.lineOld && r.lineOld > maxLineNum) maxLineNum = r.lineOld;
+        if (r.lineNew && r.lineNew > maxLineNum) maxLineNum = r.lineNew;
+    }
+    const LN_W = Math.max(4, String(maxLineNum).length);
+
+    const padNum = (n?: number): string => {
+        if (n === undefined) return ' '.repeat(LN_W);
+        const s = String(n);
+        return s.length >= LN_W ? s : ' '.repeat(LN_W - s.length) + s;
+    };
+
+    // Consistent gutter: OLD | NEW | SIGN | content
+    const SEP = '\u2502'; // │ vertical bar
+
+    return (
+        <Box flexDirection="column" width="100%">
+            {displayRows.map((row, idx) => {
+                if (row.type === 'summary') {
+                    return <Text key={idx} color="#888">{`  ${row.content}`}</Text>;
+                }
+                if (row.type === 'hunk') {
+                    return (
+                        <Box key={idx}>
+                            <Text color="#333">{' '.repeat(LN_W)}{SEP}{' '.repeat(LN_W)}{SEP}</Text>
+                            <Text color="#00BFFF">{` ${row.content}`}</Text>
+                        </Box>
+                    );
+                }
+                if (row.type === 'context') {
+                    return (
+                        <Box key={idx}>
+                            <Text color="#444">{padNum(row.lineOld)}</Text>
+                            <Text color="#333">{SEP}</Text>
+                            <Text color="#444">{padNum(row.lineNew)}</Text>
+                            <Text color="#333">{SEP}</Text>
+                            <Text color="#555">{`  ${row.content}`}</Text>
+                        </Box>
+                    );
+                }
+                if (row.type === 'del') {
+                    return (
+                        <Box key={idx}>
+                            <Text color="#FF6B6B">{padNum(row.lineOld)}</Text>
+                            <Text color="#333">{SEP}</Text>
+                            <Text color="#333">{' '.repeat(LN_W)}</Text>
+                            <Text color="#333">{SEP}</Text>
+                            <Text color="#FF6B6B" bold>{' -'}</Text>
+                            {renderHighlightedLine(row.content, '#FF6B6B', row.highlights)}
+                        </Box>
+                    );
+                }
+                if (row.type === 'add') {
+                    return (
+                        <Box key={idx}>
+                            <Text color="#333">{' '.repeat(LN_W)}</Text>
+                            <Text color="#333">{SEP}</Text>
+                            <Text color="#00D26A">{padNum(row.lineNew)}</Text>
+                            <Text color="#333">{SEP}</Text>
+                            <Text color="#00D26A" bold>{' +'}</Text>
+                            {renderHighlightedLine(row.content, '#00D26A', row.highlights)}
+                        </Box>
+                    );
+                }
+                return null;
+            })}
+            {hasMore ? (
+                <Text color="#555">{`  ... (${rows.length - maxDisplayLines} more lines)`}</Text>
+            ) : null}
+        </Box>
+    );
+}
+
+// The plan was already printed in full above — keep the review box short
+function planPreview(plan: string, maxLines: number = 25): string {
+    const lines = plan.trim().split('\n');
+    if (lines.length <= maxLines) return lines.join('\n');
+    return lines.slice(0, maxLines).join('\n') + `\n... (${lines.length - maxLines} more lines)`;
+}
+
+// Tail of a streaming response — re-rendering a long message on every delta would flicker
+function streamPreview(content: string): string {
+    const lines = content.trimStart().split('\n');
+    if (lines.length <= STREAM_PREVIEW_LINES) return lines.join('\n');
+    return `... (${lines.length - STREAM_PREVIEW_LINES} lines above)\n` + lines.slice(-STREAM_PREVIEW_LINES).join('\n');
+}
+
+// Model reasoning above the answer, dimmed: one summary line when collapsed, the text when expanded
+function renderReasoning(reasoning: string, expanded: boolean, live: boolean = false) {
+    const lines = reasoning.trim().split('\n').length;
+    if (!expanded) {
+        const size = `${lines} line${lines === 1 ? '' : 's'}`;
+        return <Text dimColor>{live ? `\u25B8 Thinking... (${size}, ctrl+o to show)` : `\u25B8 Thought for ${size} (ctrl+o to show)`}</Text>;
+    }
+    return (
+        <Box flexDirection="column" marginBottom={1}>
+            <Text dimColor>{'\u25BE Reasoning'}</Text>
+            <Text dimColor italic wrap="wrap">{live ? streamPreview(reasoning) : reasoning.trim()}</Text>
+        </Box>
+    );
+}
+
 // Build a visual bar for context usage
 function contextBar(pct: number, width: number = 20): string {
     const filled = Math.round((pct / 100) * width);
@@ -55,6 +230,24 @@ function contextBar(pct: number, width: number = 20): string {
     return bar;
 }
 
+// Session spend by turn and model, for /cost
+function costReport(): string {
+    const rows = costLedger.breakdown();
+    if (rows.length === 0) return 'No requests yet this session.';
+
+    const budget = config.config.budget;
+    const lines = [`Session cost: ${formatCost(costLedger.total)}${costLedger.hasUnpriced ? ' (some usage unpriced)' : ''}${budget ? ` of ${formatCost(budget)} budget` : ''}`];
+    for (const row of rows) {
+        const cached = row.usage.cachedTokens > 0 ? ` (${formatTokens(row.usage.cachedTokens)} cached)` : '';
+        const cost = row.cost === null ? 'no price' : formatCost(row.cost);
+        lines.push(`  Turn ${row.turn}  ${row.provider}:${row.model}  \u2191${formatTokens(row.usage.promptTokens)} \u2193${formatTokens(row.usage.completionTokens)}${cached}  ${cost}`);
+    }
+    if (costLedger.hasUnpriced) {
+        lines.push('Add missing prices under "pricing" in config.json, keyed by provider:model, in USD per million tokens.');
+    }
+    return lines.join('\n');
+}
+
 function contextColor(pct: number): string {
     if (pct < 50) return '#00D26A';
     if (pct < 75) return 'yellow';
@@ -71,9 +264,28 @@ export const Chat: React.FC<ChatProps> = ({ onReset, onClear, onModelChange, mod
     const [initError, setInitError] = useState<string | null>(null);
     const [permissionPrompt, setPermissionPrompt] = useState<PermissionPrompt | null>(null);
     const [sessionAllowed, setSessionAllowed] = useState<Set<string>>(new Set());
+    const [feedbackMode, setFeedbackMode] = useState(false);
+    const [feedback, setFeedback] = useState('');
     const [contextUsage, setContextUsage] = useState<ContextUsage>({ usedTokens: 0, maxTokens: 32768, percentage: 0 });
     const [awaitingKey, setAwaitingKey] = useState(false);
+    const [planMode, setPlanMode] = useState(false);
+    // Set when leaving plan mode with a plan to review — holds the plan text
+    const [planExit, setPlanExit] = useState<string | null>(null);
+    // Set while the agent waits for approval to go over the session budget
+    const [budgetPrompt, setBudgetPrompt] = useState<{ spent: number; budget: number; resolve: (ok: boolean) => void } | null>(null);
     const abortRef = useRef<AbortController | null>(null);
+    const agentRef = useRef<Agent | null>(null);
+    // Response currently streaming in — committed to <Static> as a normal message when complete
+    const [streaming, setStreaming] = useState<{ content: string; toolNames: string[]; reasoning: string } | null>(null);
+    // Reasoning blocks rendered from now on are expanded; earlier ones are already printed
+    const [showReasoning, setShowReasoning] = useState(false);
+    // Set while the key being handled is Ctrl+O, which the text input would otherwise type as "o"
+    const reasoningKeyRef = useRef(false);
+    const { stdin } = useStdin();
+    // Attached with /image, sent with the next message
+    const [pendingImages, setPendingImages] = useState<ImagePart[]>([]);
+    const pendingStreamRef = useRef<{ content: string; toolNames: string[]; reasoning: string } | null>(null);
+    const streamTimerRef = useRef<NodeJS.Timeout | null>(null);
 
     const activeProviderName = config.config.provider || 'groq';
     const currentModel = config.getProviderConfig(activeProviderName)?.model || 'qwen-2.5-coder-32b';
@@ -83,7 +295,8 @@ export const Chat: React.FC<ChatProps> = ({ onReset, onClear, onModelChange, mod
         const usage = getContextUsage(
             p.conversationHistory,
             p.systemPrompt,
-            currentModel
+            currentModel,
+            p.contextCalibration
         );
         setContextUsage(usage);
     };
@@ -99,7 +312,7 @@ export const Chat: React.FC<ChatProps> = ({ onReset, onClear, onModelChange, mod
             if (SessionManager.hasRecentSession()) {
                 const session = SessionManager.load();
                 if (session && session.history.length > 0) {
-                    p.conversationHistory = session.history;
+                    p.setHistory(session.history);
                     const resumeMsg: Message = {
                         role: 'system',
                         content: `Session restored (${session.history.length} messages from ${new Date(session.savedAt).toLocaleTimeString()}). Type /clear to start fresh.`
@@ -112,6 +325,8 @@ export const Chat: React.FC<ChatProps> = ({ onReset, onClear, onModelChange, mod
             }
 
             updateContextUsage(p);
+            // OpenRouter reports prices in its model list; fetch them once if the model's price is unknown
+            if (p.providerId && p.model) costLedger.loadPrice(p.providerId, p.model);
         } catch (err: any) {
             setInitError(err?.message || 'Failed to initialize provider');
         }
@@ -127,21 +342,89 @@ export const Chat: React.FC<ChatProps> = ({ onReset, onClear, onModelChange, mod
         }
     }, [provider]);
 
+    // Runs before every useInput handler, so the text input can skip the key
+    useEffect(() => {
+        const onData = (data: Buffer | string) => {
+            reasoningKeyRef.current = String(data) === '\x0f';
+        };
+        stdin?.prependListener('data', onData);
+        return () => {
+            stdin?.off('data', onData);
+        };
+    }, [stdin]);
+
     // Handle permission input + Escape to cancel
     useInput((ch: string, key: any) => {
+        // Budget approval — Escape declines, which also ends the turn
+        if (budgetPrompt) {
+            if (ch === 'y' || ch === 'Y') {
+                budgetPrompt.resolve(true);
+                setBudgetPrompt(null);
+            } else if (ch === 'n' || ch === 'N' || key.escape) {
+                budgetPrompt.resolve(false);
+                setBudgetPrompt(null);
+            }
+            return;
+        }
+
         // Escape cancels in-flight request
         if (key.escape && isProcessing && abortRef.current) {
             abortRef.current.abort();
             return;
         }
 
+        // Plan review after leaving plan mode
+        if (planExit !== null) {
+            if (ch === 'y' || ch === 'Y') {
+                finishPlanMode(true);
+            } else if (ch === 'n' || ch === 'N') {
+                finishPlanMode(false);
+            } else if (ch === 'k' || ch === 'K' || key.escape) {
+                setPlanExit(null);
+            }
+            return;
+        }
+
+        // Ctrl+O shows or hides reasoning, also while a response streams in
+        if (key.ctrl && ch === 'o') {
+            toggleReasoning();
+            return;
+        }
+
+        // Shift+Tab toggles plan mode while idle
+        if (key.tab && key.shift && !isProcessing && !permissionPrompt && !awaitingKey) {
+            togglePlanMode();
+            return;
+        }
+
         if (!permissionPrompt) return;
 
+        // Typing feedback — TextInput owns the keys, Esc goes back to the choices
+        if (feedbackMode) {
+            if (key.escape) {
+                setFeedbackMode(false);
+                setFeedback('');
+            }
+            return;
+        }
+
         if (ch === 'y' || ch === 'Y') {
-            permissionPrompt.resolve(true);
+            permissionPrompt.resolve({ allowed: true });
             setPermissionPrompt(null);
         } else if (ch === 'n' || ch === 'N') {
-            permissionPrompt.resolve(false);
+            permissionPrompt.resolve({ allowed: false });
+            setPermissionPrompt(null);
+        } else if (ch === 'f' || ch === 'F') {
+            setFeedback('');
+            setFeedbackMode(true);
+        } else if ((ch === 'p' || ch === 'P') && permissionPrompt.suggestedPattern) {
+            config.addPermissionRule('allow', { tool: permissionPrompt.toolName, pattern: permissionPrompt.suggestedPattern });
+            const ruleMsg: Message = {
+                role: 'system',
+                content: `Saved rule: always allow ${formatRule({ tool: permissionPrompt.toolName, pattern: permissionPrompt.suggestedPattern })}`
+            };
+            setMessages(prev => [...prev, ruleMsg]);
+            permissionPrompt.resolve({ allowed: true });
             setPermissionPrompt(null);
         } else if (ch === 'a' || ch === 'A') {
             setSessionAllowed(prev => {
@@ -149,311 +432,122 @@ export const Chat: React.FC<ChatProps> = ({ onReset, onClear, onModelChange, mod
                 next.add(permissionPrompt.toolName);
                 return next;
             });
-            permissionPrompt.resolve(true);
+            permissionPrompt.resolve({ allowed: true });
             setPermissionPrompt(null);
         }
     });
 
-    const requestPermission = (toolName: string, args: Record<string, any>): Promise<boolean> => {
-        if (sessionAllowed.has(toolName)) return Promise.resolve(true);
-        if (!DANGEROUS_TOOLS.includes(toolName)) return Promise.resolve(true);
-        return new Promise<boolean>((resolve) => {
-            setPermissionPrompt({ toolName, args, resolve });
-        });
+    const submitFeedback = (value: string) => {
+        if (!permissionPrompt) return;
+        permissionPrompt.resolve({ allowed: false, feedback: value.trim() || undefined });
+        setPermissionPrompt(null);
+        setFeedbackMode(false);
+        setFeedback('');
     };
 
-    // Summarize and compact conversation when context is too large
-    const summarizeContext = async (currentProvider: BaseProvider) => {
-        setStatus('Compacting context...');
-
-        // SAVE BACKUP before compaction — if anything fails, we can restore
-        SessionManager.save(
-            currentProvider.conversationHistory,
-            messages,
-            currentModel,
-            process.cwd()
-        );
-        SessionManager.backup();
-
-        // Build process state string for the summary prompt
-        const procSnap = executor.getProcessSnapshot();
-        const procState = procSnap.length > 0
-            ? '\n\nACTIVE BACKGROUND PROCESSES:\n' + procSnap.map(p =>
-                `- ${p.id}: ${p.command} (${p.running ? 'RUNNING' : 'EXITED'}, pid:${p.pid}${p.port ? ', port:' + p.port : ''}, since ${p.startTime})`
-            ).join('\n')
-            : '';
-
-        const summaryPrompt: Message = {
-            role: 'user',
-            content: `The conversation context is being compacted. Generate a structured summary that will REPLACE the entire conversation history. The next message after this summary will continue the task, so include ALL information needed.
-
-Format your summary EXACTLY like this:
-
-## TASK
-[What the user originally asked for, and the overall goal]
-
-## COMPLETED
-[Bullet list of everything done so far, with file paths and key details]
-
-## FILES MODIFIED
-[List every file created/modified with its path and what it contains]
-
-## CURRENT STATE
-[What is working, what was the last action taken, what is the immediate next step]
-
-## PENDING
-[What remains to be done]
-
-## ERRORS & DECISIONS
-[Any errors encountered and how they were resolved, key technical decisions made]
-
-## ENVIRONMENT
-- Working directory: ${process.cwd()}
-- Platform: ${process.platform}${procState}
-
-Be thorough and specific. Include exact file paths, package names, port numbers, commands used. This summary is the AI's ONLY memory of the conversation.`
-        };
-
-        try {
-            const systemPrompt = SystemPromptManager.getSystemPrompt();
-            const response = await currentProvider.chatWithTools(
-                [...currentProvider.conversationHistory, summaryPrompt],
-                [],
-                systemPrompt
-            );
-
-            const summary = response.content || 'Previous conversation context.';
-
-            currentProvider.clearHistory();
-            currentProvider.addMessage('user', '[CONTEXT COMPACTED] The conversation was compacted to save context. Below is a comprehensive summary of everything so far. Continue the task from where you left off. Do NOT re-do completed work.');
-            currentProvider.addMessage('assistant', summary);
-
-            const compactMsg: Message = {
-                role: 'system',
-                content: `Context compacted (was ${contextUsage.percentage}%). Summary preserved.`
-            };
-            setMessages(prev => [...prev, compactMsg]);
-            updateContextUsage(currentProvider);
-        } catch (err: any) {
-            // Compaction failed (network error) — restore from backup
-            const backup = SessionManager.restoreBackup();
-            if (backup && backup.history.length > 0) {
-                currentProvider.conversationHistory = backup.history;
-                const restoreMsg: Message = { role: 'system', content: 'Compaction failed, context restored from backup.' };
-                setMessages(prev => [...prev, restoreMsg]);
-            } else {
-                // No backup available, trim oldest messages as last resort
-                const history = currentProvider.conversationHistory;
-                const keepCount = Math.floor(history.length / 3);
-                const kept = history.slice(-keepCount);
-                currentProvider.conversationHistory = kept;
-            }
-            updateContextUsage(currentProvider);
-        }
+    const toggleReasoning = () => {
+        const text = showReasoning
+            ? 'Reasoning hidden — responses show a one-line summary. /thinking or Ctrl+O to show it.'
+            : 'Reasoning shown in full for the next responses. /thinking or Ctrl+O to hide it.';
+        setShowReasoning(!showReasoning);
+        setMessages(prev => [...prev, { role: 'system', content: text }]);
     };
 
-    /**
-     * Ensure conversation fits within the TPM budget before sending to API.
-     * Strategy:
-     *  1. Truncate large tool results (keep first/last 200 chars)
-     *  2. Drop old tool result pairs if still over
-     *  3. If still over, trigger full summarization
-     * Returns true if context is within budget, false if still over after all attempts.
-     */
-    const ensureContextFits = async (currentProvider: BaseProvider): Promise<boolean> => {
-        const maxTokens = getContextUsage(
-            currentProvider.conversationHistory,
-            currentProvider.systemPrompt,
-            currentModel
-        ).maxTokens;
-
-        const budget = Math.floor(maxTokens * SEND_BUDGET_RATIO);
-
-        const currentTokens = () => {
-            let t = estimateMessageTokens(currentProvider.conversationHistory);
-            if (currentProvider.systemPrompt) t += estimateTokens(currentProvider.systemPrompt);
-            return t;
-        };
-
-        // Already within budget
-        if (currentTokens() <= budget) return true;
-
-        // Pass 1: Truncate large tool results in history (keep summary)
-        for (const msg of currentProvider.conversationHistory) {
-            if (msg.role === 'tool' && msg.content.length > 800) {
-                const lines = msg.content.split('\n');
-                const headerLines = lines.filter(l => /^[A-Z_]+:/.test(l));
-                const header = headerLines.join('\n');
-                const bodyStart = msg.content.indexOf('---');
-                const body = bodyStart >= 0 ? msg.content.substring(bodyStart + 4) : msg.content;
-                const truncBody = body.substring(0, 200) + '\n... (truncated)';
-                msg.content = header ? `${header}\n---\n${truncBody}` : truncBody;
-            }
-        }
-
-        if (currentTokens() <= budget) {
-            updateContextUsage(currentProvider);
-            return true;
-        }
-
-        // Pass 2: Drop old tool result/call pairs (keep last 4 exchanges)
-        const history = currentProvider.conversationHistory;
-        let i = 0;
-        while (i < history.length - 8 && currentTokens() > budget) {
-            if (history[i].role === 'tool') {
-                history.splice(i, 1);
-            } else {
-                i++;
-            }
+    const togglePlanMode = () => {
+        const agent = agentRef.current;
+        if (!agent) return;
+        if (!agent.planMode) {
+            agent.planMode = true;
+            agent.plan = '';
+            setPlanMode(true);
+            const onMsg: Message = { role: 'system', content: 'Plan mode on — read-only tools only, nothing will be changed. /plan or Shift+Tab to exit.' };
+            setMessages(prev => [...prev, onMsg]);
+            return;
         }
-        currentProvider.conversationHistory = history;
-
-        if (currentTokens() <= budget) {
-            updateContextUsage(currentProvider);
-            return true;
+        if (!agent.plan) {
+            finishPlanMode(false);
+            return;
         }
-
-        // Pass 3: Full summarization
-        setStatus('Context too large, compacting...');
-        // UI-only notification — not added to provider history
-        const compactMsg: Message = {
-            role: 'system',
-            content: `Auto-compacting context to fit within ${(maxTokens / 1000).toFixed(0)}k token limit.`
-        };
-        setMessages(prev => [...prev, compactMsg]);
-        await summarizeContext(currentProvider);
-
-        return currentTokens() <= budget;
+        // Present the plan and ask before leaving
+        setPlanExit(agent.plan);
     };
 
-    const processResponse = async (currentProvider: BaseProvider, depth: number = 0) => {
-        if (depth >= MAX_TOOL_DEPTH) {
-            const limitMsg: Message = { role: 'system', content: 'Tool call depth limit reached.' };
-            setMessages(prev => [...prev, limitMsg]);
-            return;
+    const finishPlanMode = (execute: boolean) => {
+        if (agentRef.current) {
+            agentRef.current.planMode = false;
+            agentRef.current.plan = '';
         }
-
-        // Check if cancelled
-        if (abortRef.current?.signal.aborted) {
-            const cancelMsg: Message = { role: 'system', content: 'Request cancelled.' };
-            setMessages(prev => [...prev, cancelMsg]);
-            return;
+        setPlanMode(false);
+        setPlanExit(null);
+        if (execute) {
+            runTurn('Plan approved. Exit plan mode and execute the plan above.');
+        } else {
+            const offMsg: Message = { role: 'system', content: 'Plan mode off.' };
+            setMessages(prev => [...prev, offMsg]);
         }
+    };
 
-        try {
-            const systemPrompt = SystemPromptManager.getSystemPrompt();
+    const requestPermission = async (toolName: string, args: Record<string, any>): Promise<PermissionDecision> => {
+        // Configured rules come first — deny beats allow, and both beat prompting
+        const { verdict, rule } = evaluatePermission(toolName, args, executor.getCwd());
+        if (verdict === 'deny') return { allowed: false, deniedByRule: rule ? formatRule(rule) : toolName };
+        if (verdict === 'allow') return { allowed: true };
+
+        if (sessionAllowed.has(toolName)) return { allowed: true };
+        if (!DANGEROUS_TOOLS.includes(toolName)) return { allowed: true };
+        // Show the change before it happens, not after
+        const diff = await executor.previewChange(toolName, args);
+        const suggestedPattern = suggestPattern(toolName, args, executor.getCwd());
+        return new Promise<PermissionDecision>((resolve) => {
+            setPermissionPrompt({ toolName, args, diff, suggestedPattern, resolve });
+        });
+    };
 
-            // Ensure context fits within TPM budget before sending
-            await ensureContextFits(currentProvider);
+    const clearStreaming = () => {
+        if (streamTimerRef.current) clearTimeout(streamTimerRef.current);
+        streamTimerRef.current = null;
+        pendingStreamRef.current = null;
+        setStreaming(null);
+    };
 
-            const response = await currentProvider.chatWithTools(
-                currentProvider.conversationHistory,
-                TOOLS,
-                systemPrompt,
-                abortRef.current?.signal
+    // Hooks close over this render's state, so refresh them on every render
+    const agentHooks = {
+        onMessage: (msg: Message) => {
+            clearStreaming();
+            setMessages(prev => [...prev, msg]);
+        },
+        onStatus: setStatus,
+        onStream: (content: string, toolNames: string[], reasoning: string) => {
+            pendingStreamRef.current = { content, toolNames, reasoning };
+            if (streamTimerRef.current) return;
+            streamTimerRef.current = setTimeout(() => {
+                streamTimerRef.current = null;
+                setStreaming(pendingStreamRef.current);
+            }, STREAM_RENDER_INTERVAL_MS);
+        },
+        onHistoryChange: () => {
+            if (provider) updateContextUsage(provider);
+        },
+        saveSession: (pending?: Message) => {
+            if (!provider) return;
+            SessionManager.save(
+                provider.conversationHistory,
+                pending ? [...messages, pending] : messages,
+                currentModel,
+                process.cwd()
             );
-
-            if (response.type === 'error') {
-                const errContent = response.content || 'Unknown error';
-                // Handle user cancellation cleanly
-                if (errContent.includes('cancelled by user') || abortRef.current?.signal.aborted) {
-                    const cancelMsg: Message = { role: 'system', content: 'Request cancelled.' };
-                    setMessages(prev => [...prev, cancelMsg]);
-                    return;
-                }
-                // Handle 413 / rate limit errors by auto-compacting and retrying once
-                if (errContent.includes('413') || errContent.includes('Request too large') || errContent.includes('tokens per minute')) {
-                    setStatus('Request too large, compacting context...');
-                    // UI-only notification
-                    const trimMsg: Message = { role: 'system', content: 'Hit token limit, auto-compacting...' };
-                    setMessages(prev => [...prev, trimMsg]);
-                    await summarizeContext(currentProvider);
-                    updateContextUsage(currentProvider);
-                    // Retry once after compaction
-                    await processResponse(currentProvider, depth + 1);
-                    return;
-                }
-                const errorMsg: Message = { role: 'system', content: `Error: ${errContent}` };
-                setMessages(prev => [...prev, errorMsg]);
-                currentProvider.addMessage('assistant', errContent);
-                updateContextUsage(currentProvider);
-                return;
-            }
-
-            if (response.type === 'text') {
-                const assistantMsg: Message = { role: 'assistant', content: response.content || '' };
-                setMessages(prev => [...prev, assistantMsg]);
-                currentProvider.addMessage('assistant', response.content || '');
-                updateContextUsage(currentProvider);
-                setStatus('');
-                // Auto-save session after complete exchange
-                SessionManager.save(
-                    currentProvider.conversationHistory,
-                    [...messages, assistantMsg],
-                    currentModel,
-                    process.cwd()
-                );
-            } else if (response.type === 'tool_use' && response.tool_calls) {
-                const assistantMsg: Message = {
-                    role: 'assistant',
-                    content: response.content || '',
-                    tool_calls: response.tool_calls
-                };
-                setMessages(prev => [...prev, assistantMsg]);
-                currentProvider.addMessage('assistant', response.content || '', { tool_calls: response.tool_calls });
-
-                for (const call of response.tool_calls) {
-                    // Check abortion between tool calls
-                    if (abortRef.current?.signal.aborted) {
-                        const cancelMsg: Message = { role: 'system', content: 'Request cancelled.' };
-                        setMessages(prev => [...prev, cancelMsg]);
-                        return;
-                    }
-
-                    setStatus(`Running ${call.name}...`);
-
-                    const allowed = await requestPermission(call.name, call.arguments);
-
-                    let result: string;
-                    if (!allowed) {
-                        result = `Permission denied by user for ${call.name}`;
-                        const denyMsg: Message = { role: 'system', content: `Blocked: ${call.name}` };
-                        setMessages(prev => [...prev, denyMsg]);
-                    } else {
-                        result = await executor.execute(call.name, call.arguments);
-                    }
-
-                    const toolMsg: Message = {
-                        role: 'tool',
-                        content: result,
-                        tool_call_id: call.id,
-                        tool_name: call.name
-                    };
-                    setMessages(prev => [...prev, toolMsg]);
-                    currentProvider.addMessage('tool', result, { tool_call_id: call.id });
-                    updateContextUsage(currentProvider);
-                }
-
-                setStatus('Processing...');
-                await processResponse(currentProvider, depth + 1);
-            }
-        } catch (error: any) {
-            const errorMsg: Message = { role: 'system', content: `Error: ${error?.message || error}` };
-            setMessages(prev => [...prev, errorMsg]);
-            setStatus('');
-
-            // If context is suspiciously small after error, restore from backup
-            if (currentProvider.conversationHistory.length <= 3) {
-                const backup = SessionManager.restoreBackup();
-                if (backup && backup.history.length > currentProvider.conversationHistory.length) {
-                    currentProvider.conversationHistory = backup.history;
-                    const restoreMsg: Message = { role: 'system', content: 'Context restored from backup after error.' };
-                    setMessages(prev => [...prev, restoreMsg]);
-                    updateContextUsage(currentProvider);
-                }
-            }
-        }
+        },
+        requestPermission,
+        confirmBudget: (spent: number, budget: number) => new Promise<boolean>(resolve => {
+            setBudgetPrompt({ spent, budget, resolve });
+        }),
     };
+    if (agentRef.current) {
+        agentRef.current.hooks = agentHooks;
+    } else {
+        agentRef.current = new Agent(executor, agentHooks);
+        agentRef.current.on('event', event => eventLog.write(event));
+    }
 
     const handleSubmit = async (value: string) => {
         if (!value.trim() || !provider) return;
@@ -479,6 +573,7 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                 if (provider) {
                     p.conversationHistory = provider.conversationHistory;
                     p.systemPrompt = provider.systemPrompt;
+                    p.contextCalibration = provider.contextCalibration;
                 }
                 setProvider(p);
                 updateContextUsage(p);
@@ -494,10 +589,11 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
 
         if (trimmed.startsWith('/')) {
             setInput('');
-            switch (trimmed) {
+            const [command, ...commandArgs] = trimmed.split(/\s+/);
+            switch (command) {
                 case '/key': {
                     setAwaitingKey(true);
-                    const keyPromptMsg: Message = { role: 'system', content: 'Enter your new Groq API key (paste it and press Enter):' };
+                    const keyPromptMsg: Message = { role: 'system', content: `Enter your new ${providerRegistry.get(activeProviderName)?.name || activeProviderName} API key (paste it and press Enter):` };
                     setMessages(prev => [...prev, keyPromptMsg]);
                     return;
                 }
@@ -518,7 +614,7 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                 case '/restore': {
                     const backup = SessionManager.restoreBackup();
                     if (backup && backup.history.length > 0 && provider) {
-                        provider.conversationHistory = backup.history;
+                        provider.setHistory(backup.history);
                         if (backup.displayMessages?.length) {
                             setMessages(backup.displayMessages);
                         }
@@ -531,6 +627,43 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                     }
                     return;
                 }
+                case '/undo': {
+                    const undoMsg: Message = { role: 'system', content: describeRevert(checkpoints.undo()) };
+                    setMessages(prev => [...prev, undoMsg]);
+                    return;
+                }
+                case '/checkpoints': {
+                    const list = checkpoints.list();
+                    const text = list.length === 0
+                        ? 'No checkpoints yet. A checkpoint is created for each turn in which files are changed.'
+                        : 'Checkpoints (newest first):\n' + list.map((cp, i) => {
+                            const time = new Date(cp.createdAt).toLocaleString();
+                            const files = `${cp.files.length} file${cp.files.length === 1 ? '' : 's'}`;
+                            return `  ${i + 1}. ${time}  ${files}  "${cp.prompt.split('\n')[0]}"`;
+                        }).join('\n') + '\n/undo reverts #1, /rewind <n> reverts #1 through #n.';
+                    const listMsg: Message = { role: 'system', content: text };
+                    setMessages(prev => [...prev, listMsg]);
+                    return;
+                }
+                case '/rewind': {
+                    const count = parseInt(commandArgs[0] || '', 10);
+                    if (isNaN(count) || count < 1) {
+                        const usageMsg: Message = { role: 'system', content: 'Usage: /rewind <n>  (see /checkpoints for numbers)' };
+                        setMessages(prev => [...prev, usageMsg]);
+                        return;
+                    }
+                    const rewindMsg: Message = { role: 'system', content: describeRevert(checkpoints.rewind(count)) };
+                    setMessages(prev => [...prev, rewindMsg]);
+                    return;
+                }
+                case '/plan': {
+                    togglePlanMode();
+                    return;
+                }
+                case '/thinking': {
+                    toggleReasoning();
+                    return;
+                }
                 case '/model': {
                     // Save session before unmounting for model picker
                     if (provider) {
@@ -556,6 +689,36 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                     process.exit(0);
                     return;
                 }
+                case '/cost': {
+                    const costMsg: Message = { role: 'system', content: costReport() };
+                    setMessages(prev => [...prev, costMsg]);
+                    return;
+                }
+                case '/image': {
+                    const target = commandArgs.join(' ').replace(/^"|"$/g, '');
+                    let text: string;
+                    if (target === 'clear') {
+                        setPendingImages([]);
+                        text = 'Attached images removed.';
+                    } else if (!target) {
+                        text = pendingImages.length > 0
+                            ? `Attached to the next message: ${pendingImages.map(imageName).join(', ')}\n/image clear removes them.`
+                            : 'Usage: /image <path>  (or mention @path/to/image.png in a message)';
+                    } else if (!supportsVision(provider)) {
+                        text = visionError(provider);
+                    } else {
+                        try {
+                            const image = await loadImage(path.resolve(process.cwd(), target));
+                            setPendingImages(prev => [...prev, image]);
+                            text = `Attached ${imageName(image)}. It will be sent with your next message.`;
+                        } catch (err: any) {
+                            text = err?.message || String(err);
+                        }
+                    }
+                    const imageMsg: Message = { role: 'system', content: text };
+                    setMessages(prev => [...prev, imageMsg]);
+                    return;
+                }
                 case '/help': {
                     const helpText = SLASH_COMMANDS.map(c => `  ${c.cmd}  ${c.desc}`).join('\n');
                     const helpMsg: Message = { role: 'system', content: `Commands:\n${helpText}` };
@@ -570,24 +733,44 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
             }
         }
 
-        const userMsg: Message = { role: 'user', content: value };
-        setMessages(prev => [...prev, userMsg]);
         setInput('');
+        await runTurn(value);
+    };
+
+    // Send a user message and run the tool loop until the model answers
+    const runTurn = async (value: string) => {
+        if (!provider) return;
+
+        // Images queued with /image and mentioned as @path go with the message
+        const mentioned = await loadImageMentions(value, process.cwd());
+        const images = [...pendingImages, ...mentioned.images];
+        if (mentioned.errors.length > 0 || (images.length > 0 && !supportsVision(provider))) {
+            const problem = mentioned.errors.length > 0 ? mentioned.errors.join('\n') : visionError(provider);
+            const imageErrorMsg: Message = { role: 'system', content: `Message not sent. ${problem}` };
+            setMessages(prev => [...prev, imageErrorMsg]);
+            setInput(value);
+            return;
+        }
+        setPendingImages([]);
+
+        // The transcript lists attachments by name; the image data only goes to the provider
+        const attachments = images.map(image => `\n[image] ${imageName(image)}`).join('');
+        const userMsg: Message = { role: 'user', content: value + attachments };
+        setMessages(prev => [...prev, userMsg]);
         setIsProcessing(true);
         setStatus('Thinking...');
         abortRef.current = new AbortController();
 
+        checkpoints.beginTurn(value);
+
         try {
-            provider.addMessage('user', value);
-            updateContextUsage(provider);
-            // Smart context management — fits within TPM before sending
-            await ensureContextFits(provider);
-            await processResponse(provider);
+            await agentRef.current!.runTurn(provider, value, abortRef.current.signal, images);
         } catch (error: any) {
             const errorMsg: Message = { role: 'system', content: `Error: ${error?.message || error}` };
             setMessages(prev => [...prev, errorMsg]);
         } finally {
             abortRef.current = null;
+            clearStreaming();
             setIsProcessing(false);
             setStatus('');
         }
@@ -603,7 +786,14 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
 
     const fmtArgs = (args: Record<string, any>): string => {
         if (args.command) return args.command;
+        if (args.pattern) {
+            const pattern = Array.isArray(args.pattern) ? args.pattern.join(', ') : args.pattern;
+            return args.path ? `${pattern} in ${args.path}` : pattern;
+        }
         if (args.path && args.content) return `${args.path} (${args.content.length} chars)`;
+        if (args.path && Array.isArray(args.edits)) return `${args.path} (${args.edits.length} edit${args.edits.length === 1 ? '' : 's'})`;
+        if (args.path && (args.offset || args.limit)) return `${args.path} (from line ${args.offset || 1}${args.limit ? `, ${args.limit} lines` : ''})`;
+        if (Array.isArray(args.paths)) return args.paths.join(', ');
         if (args.path) return args.path;
         if (args.process_id) return args.process_id;
         return JSON.stringify(args);
@@ -636,7 +826,10 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
         switch (name) {
             case 'read_file':       return { label: 'READ',       color: '#87CEEB' };
             case 'write_file':      return { label: 'WRITE',      color: '#FFD700' };
+            case 'edit_file':       return { label: 'EDIT',       color: '#FFD700' };
             case 'list_dir':        return { label: 'DIR',        color: '#DDA0DD' };
+            case 'search_code':     return { label: 'SEARCH',     color: '#20B2AA' };
+            case 'find_files':      return { label: 'FIND',       color: '#DDA0DD' };
             case 'run_command':     return { label: 'CMD',        color: '#FFA500' };
             case 'stop_process':    return { label: 'STOP',       color: '#FF6B6B' };
             case 'list_processes':  return { label: 'PROC',       color: '#87CEEB' };
@@ -716,7 +909,7 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
         }
 
         // Write file results — unified diff with line numbers + word highlights
-        if (msg.tool_name === 'write_file') {
+        if (msg.tool_name === 'write_file' || msg.tool_name === 'edit_file') {
             const action = header['UPDATED'] ? 'Updated' : header['CREATED'] ? 'Created' : 'Wrote';
             const filePath = header['UPDATED'] || header['CREATED'] || '';
             const changes = header['CHANGES'] || '';
@@ -728,14 +921,6 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
             const maxDisplayLines = 40;
 
             // Parse into structured rows
-            type DiffRow = {
-                type: 'hunk' | 'add' | 'del' | 'context' | 'summary';
-                lineOld?: number;
-                lineNew?: number;
-                content: string;
-                highlights?: [number, number][];
-            };
-
             const rows: DiffRow[] = [];
             let currentOldLine = 0;
             let currentNewLine = 0;
@@ -828,48 +1013,6 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                 li++;
             }
 
-            const displayRows = rows.slice(0, maxDisplayLines);
-            const hasMore = rows.length > maxDisplayLines;
-
-            // Compute line number column width based on max line number in display
-            let maxLineNum = 1;
-            for (const r of displayRows) {
-                if (r.lineOld && r.lineOld > maxLineNum) maxLineNum = r.lineOld;
-                if (r.lineNew && r.lineNew > maxLineNum) maxLineNum = r.lineNew;
-            }
-            const LN_W = Math.max(4, String(maxLineNum).length);
-
-            const padNum = (n?: number): string => {
-                if (n === undefined) return ' '.repeat(LN_W);
-                const s = String(n);
-                return s.length >= LN_W ? s : ' '.repeat(LN_W - s.length) + s;
-            };
-
-            // Consistent gutter: OLD | NEW | SIGN | content
-            const SEP = '\u2502'; // │ vertical bar
-
-            // Render a line with word-level highlighting
-            const renderHighlightedLine = (content: string, baseColor: string, highlights?: [number, number][]) => {
-                if (!highlights || highlights.length === 0) {
-                    return <Text color={baseColor}>{content}</Text>;
-                }
-                const parts: React.ReactElement[] = [];
-                let pos = 0;
-                for (let hi = 0; hi < highlights.length; hi++) {
-                    const [start, len] = highlights[hi];
-                    if (start > pos) {
-                        parts.push(<Text key={`n${hi}`} color={baseColor}>{content.substring(pos, start)}</Text>);
-                    }
-                    const hlBg = baseColor === '#FF6B6B' ? '#5c1a1a' : '#1a3a1a';
-                    parts.push(<Text key={`h${hi}`} color={baseColor} bold backgroundColor={hlBg}>{content.substring(start, start + len)}</Text>);
-                    pos = start + len;
-                }
-                if (pos < content.length) {
-                    parts.push(<Text key="rest" color={baseColor}>{content.substring(pos)}</Text>);
-                }
-                return <>{parts}</>;
-            };
-
             return (
                 <Box paddingLeft={2} flexDirection="column" width="100%">
                     {/* Header bar */}
@@ -893,63 +1036,7 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                         </Box>
                     </Box>
 
-                    {/* Diff block */}
-                    {displayRows.length > 0 ? (
-                        <Box flexDirection="column" width="100%">
-                            {displayRows.map((row, idx) => {
-                                if (row.type === 'summary') {
-                                    return <Text key={idx} color="#888">{`  ${row.content}`}</Text>;
-                                }
-                                if (row.type === 'hunk') {
-                                    return (
-                                        <Box key={idx}>
-                                            <Text color="#333">{' '.repeat(LN_W)}{SEP}{' '.repeat(LN_W)}{SEP}</Text>
-                                            <Text color="#00BFFF">{` ${row.content}`}</Text>
-                                        </Box>
-                                    );
-                                }
-                                if (row.type === 'context') {
-                                    return (
-                                        <Box key={idx}>
-                                            <Text color="#444">{padNum(row.lineOld)}</Text>
-                                            <Text color="#333">{SEP}</Text>
-                                            <Text color="#444">{padNum(row.lineNew)}</Text>
-                                            <Text color="#333">{SEP}</Text>
-                                            <Text color="#555">{`  ${row.content}`}</Text>
-                                        </Box>
-                                    );
-                                }
-                                if (row.type === 'del') {
-                                    return (
-                                        <Box key={idx}>
-                                            <Text color="#FF6B6B">{padNum(row.lineOld)}</Text>
-                                            <Text color="#333">{SEP}</Text>
-                                            <Text color="#333">{' '.repeat(LN_W)}</Text>
-                                            <Text color="#333">{SEP}</Text>
-                                            <Text color="#FF6B6B" bold>{' -'}</Text>
-                                            {renderHighlightedLine(row.content, '#FF6B6B', row.highlights)}
-                                        </Box>
-                                    );
-                                }
-                                if (row.type === 'add') {
-                                    return (
-                                        <Box key={idx}>
-                                            <Text color="#333">{' '.repeat(LN_W)}</Text>
-                                            <Text color="#333">{SEP}</Text>
-                                            <Text color="#00D26A">{padNum(row.lineNew)}</Text>
-                                            <Text color="#333">{SEP}</Text>
-                                            <Text color="#00D26A" bold>{' +'}</Text>
-                                            {renderHighlightedLine(row.content, '#00D26A', row.highlights)}
-                                        </Box>
-                                    );
-                                }
-                                return null;
-                            })}
-                            {hasMore ? (
-                                <Text color="#555">{`  ... (${rows.length - maxDisplayLines} more lines)`}</Text>
-                            ) : null}
-                        </Box>
-                    ) : null}
+                    {renderDiffRows(rows, maxDisplayLines)}
                 </Box>
             );
         }
@@ -960,13 +1047,16 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                 <Box paddingLeft={2} flexDirection="column" width="100%">
                     <Box>
                         <Text color={tl.color} bold>{`[${tl.label}] `}</Text>
-                        <Text color="white">{header['PATH'] || ''}</Text>
+                        <Text color="white">{header['PATH'] || (header['FILES'] ? `${header['FILES']} files` : '')}</Text>
                         {header['SIZE'] ? (
                             <Text color="#555">{` ${header['SIZE']}`}</Text>
                         ) : null}
                         {header['LINES'] ? (
                             <Text color="#555">{` | ${header['LINES']} lines`}</Text>
                         ) : null}
+                        {header['RANGE'] ? (
+                            <Text color="#555">{` | lines ${header['RANGE']}`}</Text>
+                        ) : null}
                     </Box>
                     {truncatedBody.trim() ? (
                         <Box paddingLeft={2} width="100%">
@@ -995,6 +1085,42 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
             );
         }
 
+        // File discovery
+        if (msg.tool_name === 'find_files') {
+            return (
+                <Box paddingLeft={2} flexDirection="column" width="100%">
+                    <Box>
+                        <Text color={tl.color} bold>{`[${tl.label}] `}</Text>
+                        <Text color="white">{header['FIND'] || ''}</Text>
+                        <Text color="#555">{` (${header['FOUND'] || '0 files'})`}</Text>
+                    </Box>
+                    {truncatedBody.trim() ? (
+                        <Box paddingLeft={2} width="100%">
+                            <Text color="#666" wrap="wrap">{truncatedBody.trim()}</Text>
+                        </Box>
+                    ) : null}
+                </Box>
+            );
+        }
+
+        // Code search
+        if (msg.tool_name === 'search_code') {
+            return (
+                <Box paddingLeft={2} flexDirection="column" width="100%">
+                    <Box>
+                        <Text color={tl.color} bold>{`[${tl.label}] `}</Text>
+                        <Text color="white">{`/${header['SEARCH'] || ''}/`}</Text>
+                        <Text color="#555">{` (${header['MATCHES'] || '0'})`}</Text>
+                    </Box>
+                    {truncatedBody.trim() ? (
+                        <Box paddingLeft={2} width="100%">
+                            <Text color="#666" wrap="wrap">{truncatedBody.trim()}</Text>
+                        </Box>
+                    ) : null}
+                </Box>
+            );
+        }
+
         // Stop process / list processes / generic
         if (msg.tool_name === 'stop_process') {
             return (
@@ -1096,8 +1222,19 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
 
     const pct = contextUsage.percentage;
     const clr = contextColor(pct);
+    const inputColor = awaitingKey ? '#FFD700' : planMode ? '#87CEEB' : '#00D26A';
     const tokensK = (contextUsage.usedTokens / 1000).toFixed(1);
     const maxK = (contextUsage.maxTokens / 1000).toFixed(0);
+    // Tokens the providers reported this session: sent ↑, received ↓
+    const sessionUsage = agentRef.current?.sessionUsage;
+    const usageLabel = sessionUsage && sessionUsage.promptTokens > 0
+        ? `  \u2191${formatTokens(sessionUsage.promptTokens)} \u2193${formatTokens(sessionUsage.completionTokens)}`
+            + (sessionUsage.cachedTokens > 0 ? ` (${formatTokens(sessionUsage.cachedTokens)} cached)` : '')
+        : '';
+    const budget = config.config.budget;
+    const costLabel = costLedger.entries.length > 0 || budget
+        ? `  ${formatCost(costLedger.total)}${costLedger.hasUnpriced ? '+' : ''}${budget ? `/${formatCost(budget)}` : ''}`
+        : '';
 
     return (
         <Box flexDirection="column">
@@ -1129,6 +1266,7 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                         {msg.role === 'assistant' ? (
                             <Box borderStyle="round" borderColor="#333" paddingX={1} flexDirection="column" marginTop={1}>
                                 <Text bold color="#00D26A">{'CLOUDE'}</Text>
+                                {msg.reasoning ? renderReasoning(msg.reasoning, showReasoning) : null}
                                 {msg.content ? <Text color="white" wrap="wrap">{msg.content}</Text> : null}
                                 {msg.tool_calls && msg.tool_calls.length > 0 ? (
                                     <Box flexDirection="column" marginTop={1}>
@@ -1159,6 +1297,24 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                 }}
             </Static>
 
+            {streaming && (streaming.content || streaming.toolNames.length > 0 || streaming.reasoning) ? (
+                <Box borderStyle="round" borderColor="#333" paddingX={1} flexDirection="column" marginTop={1}>
+                    <Text bold color="#00D26A">{'CLOUDE'}</Text>
+                    {streaming.reasoning ? renderReasoning(streaming.reasoning, showReasoning, true) : null}
+                    {streaming.content ? (
+                        <Text color="white" wrap="wrap">{streamPreview(streaming.content)}</Text>
+                    ) : null}
+                    {streaming.toolNames.length > 0 ? (
+                        <Box flexDirection="column" marginTop={1}>
+                            {streaming.toolNames.map((name, j) => {
+                                const tl = toolLabel(name);
+                                return <Text key={j} color={tl.color} bold>{`[${tl.label}] `}</Text>;
+                            })}
+                        </Box>
+                    ) : null}
+                </Box>
+            ) : null}
+
             {status && !permissionPrompt ? (
                 <Box paddingLeft={2}>
                     <Spinner type="dots" />
@@ -1174,37 +1330,129 @@ Be thorough and specific. Include exact file paths, package names, port numbers,
                         <Text color="white">{`${permissionPrompt.toolName}: `}</Text>
                         <Text color="#888">{fmtArgs(permissionPrompt.args)}</Text>
                     </Box>
+                    {permissionPrompt.diff ? (
+                        <Box flexDirection="column" marginTop={1} width="100%">
+                            <Box>
+                                <Text color="white" bold>{permissionPrompt.diff.isNew ? 'New file ' : 'Changes '}</Text>
+                                <Text color="#00D26A" bold>{`+${permissionPrompt.diff.additions}`}</Text>
+                                <Text color="#555">{' '}</Text>
+                                <Text color="#FF6B6B" bold>{`-${permissionPrompt.diff.deletions}`}</Text>
+                            </Box>
+                            {permissionPrompt.diff.additions === 0 && permissionPrompt.diff.deletions === 0
+                                ? <Text color="#888">{'  No changes (file identical)'}</Text>
+                                : renderDiffRows(permissionPrompt.diff.lines, 30)}
+                        </Box>
+                    ) : null}
+                    {feedbackMode ? (
+                        <Box flexDirection="column" marginTop={1}>
+                            <Text color="#FFD700">{'Tell the model what to do instead (Enter to send, Esc to go back):'}</Text>
+                            <Box borderStyle="round" borderColor="#FFD700" paddingX={1}>
+                                <Text color="#FFD700">{'> '}</Text>
+                                <TextInput
+                                    value={feedback}
+                                    onChange={value => {
+                                        if (!reasoningKeyRef.current) setFeedback(value);
+                                    }}
+                                    onSubmit={submitFeedback}
+                                    placeholder="e.g. keep the old function name"
+                                    focus={true}
+                                />
+                            </Box>
+                        </Box>
+                    ) : (
+                        <Box marginTop={1} flexDirection="row">
+                            <Box borderStyle="round" borderColor="#00D26A" paddingX={1}>
+                                <Text color="#00D26A" bold>{'[Y] Approve'}</Text>
+                            </Box>
+                            <Text color="#555">{' '}</Text>
+                            <Box borderStyle="round" borderColor="red" paddingX={1}>
+                                <Text color="red" bold>{'[N] Reject'}</Text>
+                            </Box>
+                            <Text color="#555">{' '}</Text>
+                            <Box borderStyle="round" borderColor="#FFD700" paddingX={1}>
+                                <Text color="#FFD700" bold>{'[F] Reject with Feedback'}</Text>
+                            </Box>
+                            <Text color="#555">{' '}</Text>
+                            <Box borderStyle="round" borderColor="#87CEEB" paddingX={1}>
+                                <Text color="#87CEEB" bold>{'[A] Allow Session'}</Text>
+                            </Box>
+                            {permissionPrompt.suggestedPattern ? (
+                                <>
+                                    <Text color="#555">{' '}</Text>
+                                    <Box borderStyle="round" borderColor="#DDA0DD" paddingX={1}>
+                                        <Text color="#DDA0DD" bold>{`[P] Always Allow "${permissionPrompt.suggestedPattern}"`}</Text>
+                                    </Box>
+                                </>
+                            ) : null}
+                        </Box>
+                    )}
+                </Box>
+            ) : null}
+
+            {budgetPrompt ? (
+                <Box flexDirection="column" borderStyle="round" borderColor="#FFA500" paddingX={2} marginTop={1}>
+                    <Text bold color="#FFA500">{'Budget Reached'}</Text>
+                    <Text color="white">{`This session has spent ${formatCost(budgetPrompt.spent)} of its ${formatCost(budgetPrompt.budget)} budget, and the next request would go over it.`}</Text>
+                    <Box marginTop={1} flexDirection="row">
+                        <Box borderStyle="round" borderColor="#00D26A" paddingX={1}>
+                            <Text color="#00D26A" bold>{'[Y] Continue This Turn'}</Text>
+                        </Box>
+                        <Text color="#555">{' '}</Text>
+                        <Box borderStyle="round" borderColor="red" paddingX={1}>
+                            <Text color="red" bold>{'[N] Stop'}</Text>
+                        </Box>
+                    </Box>
+                </Box>
+            ) : null}
+
+            {planExit !== null ? (
+                <Box flexDirection="column" borderStyle="round" borderColor="#87CEEB" paddingX={2} marginTop={1}>
+                    <Text bold color="#87CEEB">{'Plan Ready'}</Text>
+                    <Box marginTop={1}>
+                        <Text color="white" wrap="wrap">{planPreview(planExit)}</Text>
+                    </Box>
                     <Box marginTop={1} flexDirection="row">
                         <Box borderStyle="round" borderColor="#00D26A" paddingX={1}>
-                            <Text color="#00D26A" bold>{'[Y] Allow'}</Text>
+                            <Text color="#00D26A" bold>{'[Y] Execute Plan'}</Text>
                         </Box>
                         <Text color="#555">{' '}</Text>
                         <Box borderStyle="round" borderColor="red" paddingX={1}>
-                            <Text color="red" bold>{'[N] Reject'}</Text>
+                            <Text color="red" bold>{'[N] Exit Without Executing'}</Text>
                         </Box>
                         <Text color="#555">{' '}</Text>
                         <Box borderStyle="round" borderColor="#87CEEB" paddingX={1}>
-                            <Text color="#87CEEB" bold>{'[A] Allow Session'}</Text>
+                            <Text color="#87CEEB" bold>{'[K] Keep Planning'}</Text>
                         </Box>
                     </Box>
                 </Box>
             ) : null}
 
             <Box justifyContent="flex-end" paddingX={2}>
+                {planMode ? <Text color="#87CEEB" bold>{'PLAN MODE (read-only)  '}</Text> : null}
                 <Text color={clr}>{contextBar(pct, 10)}</Text>
                 <Text color="#555">{` ${pct}% `}</Text>
                 <Text color="#444">{`${tokensK}k/${maxK}k`}</Text>
+                {usageLabel ? <Text color="#444">{usageLabel}</Text> : null}
+                {costLabel ? <Text color={budget && costLedger.total >= budget ? 'red' : '#555'}>{costLabel}</Text> : null}
             </Box>
 
-            {!isProcessing && !permissionPrompt ? (
+            {!isProcessing && !permissionPrompt && planExit === null ? (
                 <Box flexDirection="column">
-                    <Box borderStyle="round" borderColor={awaitingKey ? '#FFD700' : '#00D26A'} paddingX={1}>
-                        <Text color={awaitingKey ? '#FFD700' : '#00D26A'}>{awaitingKey ? 'KEY> ' : '> '}</Text>
+                    {pendingImages.length > 0 ? (
+                        <Box paddingX={2}>
+                            <Text color="#87CEEB">{`Attached: ${pendingImages.map(imageName).join(', ')}`}</Text>
+                            <Text color="#555">{'  (/image clear to remove)'}</Text>
+                        </Box>
+                    ) : null}
+                    <Box borderStyle="round" borderColor={inputColor} paddingX={1}>
+                        <Text color={inputColor}>{awaitingKey ? 'KEY> ' : planMode ? 'PLAN> ' : '> '}</Text>
                         <TextInput
                             value={input}
-                            onChange={setInput}
+                            onChange={value => {
+                                if (!reasoningKeyRef.current) setInput(value);
+                            }}
                             onSubmit={handleSubmit}
-                            placeholder={awaitingKey ? 'Paste your API key here...' : 'Type a message... (/ for commands)'}
+                            placeholder={awaitingKey ? 'Paste your API key here...' : planMode ? 'Describe the task to plan... (Shift+Tab to exit plan mode)' : 'Type a message... (/ for commands)'}
                             focus={true}
                         />
                     </Box>
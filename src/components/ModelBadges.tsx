@@ -0,0 +1,27 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { ModelInfo } from '../core/types';
+import { capabilityBadges } from '../core/models';
+
+interface ModelBadgesProps {
+    provider: string;
+    model: ModelInfo;
+}
+
+/** Capability badges after a model id; render inside a <Text> */
+export const ModelBadges: React.FC<ModelBadgesProps> = ({ provider, model }) => (
+    <>
+        {capabilityBadges(provider, model).map(badge => (
+            <Text key={badge.label} color={badge.color} bold={false}>{`  ${badge.label}`}</Text>
+        ))}
+    </>
+);
+
+/** Shown after Enter on a model that cannot call tools natively */
+export const NoToolsWarning: React.FC<{ model: ModelInfo }> = ({ model }) => (
+    <Box flexDirection="column" marginTop={1}>
+        <Text color="#FFA500">{`${model.id} does not support native tool calls.`}</Text>
+        <Text color="#888">{'Tools will be described in the prompt instead, which is less reliable.'}</Text>
+        <Text color="#555">{'enter: use it anyway  |  esc: pick another'}</Text>
+    </Box>
+);
@@ -1,12 +1,14 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Box, Text, useInput } from 'ink';
 import Spinner from 'ink-spinner';
 import { config } from '../core/config';
-import { GroqProvider } from '../providers/groq';
-import { OpenRouterProvider } from '../providers/openrouter';
+import { ModelInfo, PullProgress } from '../core/types';
+import { providerRegistry } from '../providers/registry';
 import { OllamaProvider } from '../providers/ollama';
-import { GoogleAIStudioProvider } from '../providers/googleaistudio';
+import { costLedger } from '../core/cost';
+import { capabilityBadges, describeModels, formatSize, isChatModel } from '../core/models';
+import { preferTextTools } from '../core/texttools';
+import { ModelBadges, NoToolsWarning } from './ModelBadges';
 
 interface ModelPickerProps {
     onSelect: (model: { id: string; contextWindow: number }) => void;
@@ -15,82 +17,205 @@ interface ModelPickerProps {
 
 const VISIBLE_COUNT = 12;
 
+/** Every space-separated term must appear in the id, name or a badge */
+function matchesFilter(provider: string, model: ModelInfo, filter: string): boolean {
+    const haystack = [model.id, model.name || '', ...capabilityBadges(provider, model).map(b => b.label)]
+        .join(' ').toLowerCase();
+    return filter.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+}
+
+// [██████░░░░░░] 42%  1.2 GB/2.9 GB
+function progressBar(progress: PullProgress, width = 30): string {
+    if (!progress.total) return '';
+    const fraction = Math.min(1, (progress.completed || 0) / progress.total);
+    const filled = Math.round(fraction * width);
+    return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${Math.round(fraction * 100)}%  ${formatSize(progress.completed || 0)}/${formatSize(progress.total)}`;
+}
+
 export const ModelPicker: React.FC<ModelPickerProps> = ({ onSelect, onCancel }) => {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [models, setModels] = useState<{ id: string; contextWindow: number }[]>([]);
+    const [models, setModels] = useState<ModelInfo[]>([]);
+    const [hiddenCount, setHiddenCount] = useState(0);
+    const [filter, setFilter] = useState('');
     const [selectedIdx, setSelectedIdx] = useState(0);
     const [scrollOffset, setScrollOffset] = useState(0);
+    // Model waiting for a second Enter because it has no native tool calls
+    const [warnModel, setWarnModel] = useState<ModelInfo | null>(null);
+    // Ollama model management
+    const [pull, setPull] = useState<{ model: string; progress: PullProgress } | null>(null);
+    const [confirmDelete, setConfirmDelete] = useState<ModelInfo | null>(null);
+    const [notice, setNotice] = useState<{ text: string; color: string } | null>(null);
+    const pullAbort = useRef<AbortController | null>(null);
 
     const currentProv = config.config.provider || 'groq';
     const activeModel = config.getProviderConfig(currentProv)?.model || '';
     const providerName = config.getProviderConfig(currentProv)?.name || currentProv;
+    const isOllama = currentProv === 'ollama';
+    const ollamaHost = config.getProviderConfig('ollama')?.baseUrl;
 
-    useEffect(() => {
-        const fetchModels = async () => {
-            try {
-                const apiKey = config.getProviderConfig(currentProv)?.apiKey || '';
-                let fetched: { id: string; contextWindow: number }[];
-                switch (currentProv) {
-                    case 'openrouter':
-                        if (!apiKey) throw new Error('No API key configured');
-                        fetched = await OpenRouterProvider.fetchModels(apiKey);
-                        break;
-                    case 'googleaistudio':
-                        if (!apiKey) throw new Error('No API key configured');
-                        fetched = await GoogleAIStudioProvider.fetchModels(apiKey);
-                        break;
-                    case 'ollama':
-                        fetched = await OllamaProvider.fetchModels('');
-                        break;
-                    default:
-                        if (!apiKey) throw new Error('No API key configured');
-                        fetched = await GroqProvider.fetchModels(apiKey);
-                        break;
-                }
-                setModels(fetched);
-                // Pre-select the currently active model if found
-                const activeIdx = fetched.findIndex(m => m.id === activeModel);
-                if (activeIdx >= 0) {
-                    setSelectedIdx(activeIdx);
-                    setScrollOffset(Math.max(0, activeIdx - Math.floor(VISIBLE_COUNT / 2)));
-                }
-                setLoading(false);
-            } catch (err: any) {
-                setError(err?.message || 'Failed to fetch models');
-                setLoading(false);
+    /** (Re)load the list and put the cursor on `selectId` if it is listed */
+    const loadModels = async (selectId: string) => {
+        try {
+            const definition = providerRegistry.get(currentProv);
+            if (!definition) throw new Error(`Unknown provider "${currentProv}"`);
+            const conf = config.getProviderConfig(currentProv) || { name: definition.name };
+            if (definition.needsKey && !conf.apiKey) throw new Error('No API key configured');
+            if (definition.needsUrl && !conf.baseUrl) throw new Error('No base URL configured');
+            const fetched = await definition.fetchModels(conf);
+            costLedger.rememberPrices(currentProv, fetched);
+            // Suggested Ollama models that are not downloaded yet can be pulled from here
+            const suggested = isOllama
+                ? OllamaProvider.fallbackModels()
+                    .filter(s => !fetched.some(m => m.id === s.id))
+                    .map(s => ({ ...s, installed: false }))
+                : [];
+            // Embedding, audio and guard models cannot drive the agent
+            const chatModels = describeModels(currentProv, [...fetched, ...suggested]).filter(isChatModel);
+            setModels(chatModels);
+            setHiddenCount(fetched.length + suggested.length - chatModels.length);
+            const listed = filter ? chatModels.filter(m => matchesFilter(currentProv, m, filter)) : chatModels;
+            const idx = listed.findIndex(m => m.id === selectId);
+            if (idx >= 0) {
+                setSelectedIdx(idx);
+                setScrollOffset(Math.max(0, idx - Math.floor(VISIBLE_COUNT / 2)));
+            } else {
+                setSelectedIdx(Math.min(selectedIdx, Math.max(0, listed.length - 1)));
             }
-        };
-        fetchModels();
+            setLoading(false);
+        } catch (err: any) {
+            setError(err?.message || 'Failed to fetch models');
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        // Pre-select the currently active model if found
+        loadModels(activeModel);
+        return () => pullAbort.current?.abort();
     }, []);
 
-    useInput((_ch: string, key: any) => {
+    const startPull = async (model: ModelInfo) => {
+        const controller = new AbortController();
+        pullAbort.current = controller;
+        setNotice(null);
+        setPull({ model: model.id, progress: { status: 'starting' } });
+        try {
+            for await (const progress of OllamaProvider.pullModel(ollamaHost, model.id, controller.signal)) {
+                setPull({ model: model.id, progress });
+            }
+            setNotice({ text: `Pulled ${model.id}`, color: '#00D26A' });
+            await loadModels(model.id);
+        } catch (err: any) {
+            const text = controller.signal.aborted ? `Pull of ${model.id} cancelled` : `Pull of ${model.id} failed: ${err?.message || err}`;
+            setNotice({ text, color: controller.signal.aborted ? '#888' : 'red' });
+        } finally {
+            pullAbort.current = null;
+            setPull(null);
+        }
+    };
+
+    const deleteModel = async (model: ModelInfo) => {
+        setConfirmDelete(null);
+        try {
+            await OllamaProvider.deleteModel(ollamaHost, model.id);
+            setNotice({ text: `Deleted ${model.id}`, color: '#888' });
+            await loadModels(model.id);
+        } catch (err: any) {
+            setNotice({ text: `Delete of ${model.id} failed: ${err?.message || err}`, color: 'red' });
+        }
+    };
+
+    const visibleModels = filter ? models.filter(m => matchesFilter(currentProv, m, filter)) : models;
+
+    const updateFilter = (next: string) => {
+        setFilter(next);
+        setSelectedIdx(0);
+        setScrollOffset(0);
+        setWarnModel(null);
+    };
+
+    const choose = (model: ModelInfo) => {
+        if (model.capabilities.tools === false) preferTextTools(currentProv, model.id);
+        onSelect(model);
+    };
+
+    useInput((input: string, key: any) => {
+        // A running pull only listens for Esc
+        if (pull) {
+            if (key.escape) pullAbort.current?.abort();
+            return;
+        }
+
         if (key.escape) {
-            onCancel();
+            if (confirmDelete) {
+                setConfirmDelete(null);
+            } else if (warnModel) {
+                setWarnModel(null);
+            } else if (filter) {
+                updateFilter('');
+            } else {
+                onCancel();
+            }
             return;
         }
 
         if (loading || error) return;
 
+        if (confirmDelete) {
+            if (key.return) deleteModel(confirmDelete);
+            return;
+        }
+
+        if (isOllama && key.ctrl && (input === 'd' || input === 'p')) {
+            const selected = visibleModels[selectedIdx];
+            if (!selected) return;
+            setWarnModel(null);
+            if (input === 'p') {
+                // Pulling an installed model updates it
+                startPull(selected);
+            } else if (selected.installed !== false) {
+                setConfirmDelete(selected);
+            }
+            return;
+        }
+
         if (key.upArrow && selectedIdx > 0) {
             const newIdx = selectedIdx - 1;
             setSelectedIdx(newIdx);
+            setWarnModel(null);
             if (newIdx < scrollOffset) {
                 setScrollOffset(newIdx);
             }
+            return;
         }
-        if (key.downArrow && selectedIdx < models.length - 1) {
+        if (key.downArrow && selectedIdx < visibleModels.length - 1) {
             const newIdx = selectedIdx + 1;
             setSelectedIdx(newIdx);
+            setWarnModel(null);
             if (newIdx >= scrollOffset + VISIBLE_COUNT) {
                 setScrollOffset(scrollOffset + 1);
             }
+            return;
         }
         if (key.return) {
-            const selected = models[selectedIdx];
-            if (selected) {
-                onSelect(selected);
+            const selected = visibleModels[selectedIdx];
+            if (!selected) return;
+            if (isOllama && selected.installed === false) {
+                startPull(selected);
+            } else if (selected.capabilities.tools === false && warnModel?.id !== selected.id) {
+                setWarnModel(selected);
+            } else {
+                choose(selected);
             }
+            return;
+        }
+        if (key.backspace || key.delete) {
+            if (filter) updateFilter(filter.slice(0, -1));
+            return;
+        }
+        if (input && !key.ctrl && !key.meta && !key.tab && /^[\x20-\x7e]+$/.test(input)) {
+            updateFilter(filter + input);
         }
     });
 
@@ -120,16 +245,20 @@ export const ModelPicker: React.FC<ModelPickerProps> = ({ onSelect, onCancel })
         );
     }
 
-    const windowEnd = Math.min(scrollOffset + VISIBLE_COUNT, models.length);
-    const visibleSlice = models.slice(scrollOffset, windowEnd);
+    const windowEnd = Math.min(scrollOffset + VISIBLE_COUNT, visibleModels.length);
+    const visibleSlice = visibleModels.slice(scrollOffset, windowEnd);
     const hasAbove = scrollOffset > 0;
-    const hasBelow = windowEnd < models.length;
+    const hasBelow = windowEnd < visibleModels.length;
+    const position = visibleModels.length > 0 ? `${selectedIdx + 1}/${visibleModels.length}` : '0/0';
 
     return (
         <Box flexDirection="column" width="100%">
             <Box flexDirection="column" borderStyle="round" borderColor="#00D26A" paddingX={2} width="100%">
                 <Text bold color="#00D26A">{`Select Model — ${providerName}`}</Text>
-                <Text color="#666">{`${selectedIdx + 1}/${models.length}  |  up/down: navigate  |  enter: select  |  esc: cancel`}</Text>
+                <Text color="#666">{`${position}  |  up/down: navigate  |  type: filter  |  enter: select  |  esc: ${filter ? 'clear' : 'cancel'}`}</Text>
+                {isOllama ? <Text color="#666">{'enter on "not installed": pull  |  ctrl+p: update  |  ctrl+d: delete'}</Text> : null}
+                <Text color={filter ? 'white' : '#555'}>{`Filter: ${filter || '(type to search, e.g. "tools vision")'}`}</Text>
+                {hiddenCount > 0 ? <Text color="#555">{`${hiddenCount} embedding/audio/guard model${hiddenCount === 1 ? '' : 's'} hidden`}</Text> : null}
 
                 {hasAbove ? <Text color="#555">{'  ...'}</Text> : null}
 
@@ -137,16 +266,40 @@ export const ModelPicker: React.FC<ModelPickerProps> = ({ onSelect, onCancel })
                     const realIdx = scrollOffset + visIdx;
                     const isSelected = realIdx === selectedIdx;
                     const prefix = isSelected ? '› ' : '  ';
-                    const ctx = model.contextWindow ? ` (${(model.contextWindow / 1000).toFixed(0)}k)` : '';
                     const active = model.id === activeModel ? ' ✓' : '';
                     return (
-                        <Text key={realIdx} color={isSelected ? '#00FF7F' : 'white'} bold={isSelected}>
-                            {`${prefix}${model.id}${ctx}${active}`}
+                        <Text key={model.id} color={isSelected ? '#00FF7F' : 'white'} bold={isSelected} wrap="truncate-end">
+                            {`${prefix}${model.id}${active}`}
+                            <ModelBadges provider={currentProv} model={model} />
                         </Text>
                     );
                 })}
 
+                {visibleModels.length === 0 ? <Text color="#888">{'  No models match the filter'}</Text> : null}
                 {hasBelow ? <Text color="#555">{'  ...'}</Text> : null}
+
+                {warnModel ? <NoToolsWarning model={warnModel} /> : null}
+
+                {pull ? (
+                    <Box flexDirection="column" marginTop={1}>
+                        <Box>
+                            <Spinner type="dots" />
+                            <Text color="#00D26A">{` Pulling ${pull.model}`}</Text>
+                            <Text color="#888">{`  ${pull.progress.status.replace(/([0-9a-f]{12})[0-9a-f]+/, '$1')}`}</Text>
+                        </Box>
+                        {pull.progress.total ? <Text color="#00D26A">{progressBar(pull.progress)}</Text> : null}
+                        <Text color="#555">{'esc: cancel'}</Text>
+                    </Box>
+                ) : null}
+
+                {confirmDelete ? (
+                    <Box flexDirection="column" marginTop={1}>
+                        <Text color="#FFA500">{`Delete ${confirmDelete.id}${confirmDelete.size ? ` (${formatSize(confirmDelete.size)})` : ''} from disk?`}</Text>
+                        <Text color="#555">{'enter: delete  |  esc: keep'}</Text>
+                    </Box>
+                ) : null}
+
+                {notice && !pull && !confirmDelete ? <Box marginTop={1}><Text color={notice.color}>{notice.text}</Text></Box> : null}
             </Box>
         </Box>
     );
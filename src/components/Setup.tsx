@@ -4,11 +4,13 @@ import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
 import { config } from '../core/config';
-import { GroqProvider } from '../providers/groq';
-import { OpenRouterProvider } from '../providers/openrouter';
-import { OllamaProvider } from '../providers/ollama';
-import { GoogleAIStudioProvider } from '../providers/googleaistudio';
-
+import { ModelInfo, ProviderConfig } from '../core/types';
+import { providerRegistry, RegisteredProvider } from '../providers/registry';
+import { BaseProvider } from '../providers/base';
+import { costLedger } from '../core/cost';
+import { describeModels } from '../core/models';
+import { preferTextTools } from '../core/texttools';
+import { ModelBadges, NoToolsWarning } from './ModelBadges';
 
 interface SetupProps {
     onComplete: () => void;
@@ -16,23 +18,12 @@ interface SetupProps {
 
 const VISIBLE_COUNT = 10;
 
-/** Providers available for selection */
-const PROVIDERS = [
-    { id: 'groq', name: 'Groq', desc: 'Fast inference — requires API key', color: '#F55036', needsKey: true, keyUrl: 'https://console.groq.com/keys', placeholder: 'gsk_...' },
-    { id: 'openrouter', name: 'OpenRouter', desc: 'Multi-model gateway — requires API key', color: '#6366F1', needsKey: true, keyUrl: 'https://openrouter.ai/keys', placeholder: 'sk-or-...' },
-    { id: 'googleaistudio', name: 'Google AI Studio', desc: 'Gemma/Gemini models — requires API key', color: '#87CEEB', needsKey: true, keyUrl: 'https://aistudio.google.com/app/apikey', placeholder: 'AIza...' },
-    { id: 'ollama', name: 'Ollama', desc: 'Local models — no API key needed', color: '#FFFFFF', needsKey: false, keyUrl: '', placeholder: '' },
-];
-
-
-
 /** Check if a model is the Qwen 2.5 Coder model */
 const isQwenCoder = (id: string) =>
     id.includes('qwen-2.5-coder-32b');
 
 /** Build a flat display list: pin recommended to top, then categorized groups */
-function buildModelList(models: any[]): any[] {
-    // Groq model list (original logic)
+function buildModelList(models: ModelInfo[]): any[] {
     const qwenIdx = models.findIndex(m => isQwenCoder(m.id));
     let qwenModel: any = null;
     const rest = [...models];
@@ -40,20 +31,8 @@ function buildModelList(models: any[]): any[] {
         qwenModel = { ...rest.splice(qwenIdx, 1)[0], recommended: true, pinned: true };
     }
 
-    // Categorize remaining
-    const fast: any[] = [];
-    const allRounder: any[] = [];
-    const context: any[] = [];
-
-    for (const m of rest) {
-        if (m.id.includes('8b') || m.id.includes('instant') || m.id.includes('gemma')) {
-            fast.push(m);
-        } else if (m.contextWindow >= 100000) {
-            context.push(m);
-        } else {
-            allRounder.push(m);
-        }
-    }
+    // Categorize remaining; non-chat models are dropped here
+    const { fast, allRounder, context } = BaseProvider.categorizeModels(rest);
 
     const result: any[] = [];
 
@@ -82,72 +61,65 @@ function buildModelList(models: any[]): any[] {
 
 
 export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
-    const [step, setStep] = useState<'provider' | 'apikey' | 'verify' | 'models' | 'probing'>('provider');
+    const providers = providerRegistry.list();
+    const [step, setStep] = useState<'provider' | 'baseurl' | 'apikey' | 'verify' | 'models' | 'probing'>('provider');
     const [selectedProvider, setSelectedProvider] = useState(0);
-    const [chosenProvider, setChosenProvider] = useState<typeof PROVIDERS[0] | null>(null);
+    const [chosenProvider, setChosenProvider] = useState<RegisteredProvider | null>(null);
     const [apiKey, setApiKey] = useState('');
+    const [baseUrl, setBaseUrl] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [isValidating, setIsValidating] = useState(false);
     const [selectedModelIdx, setSelectedModelIdx] = useState(0);
     const [availableModels, setAvailableModels] = useState<any[]>([]);
     const [scrollOffset, setScrollOffset] = useState(0);
+    const [warnModel, setWarnModel] = useState<ModelInfo | null>(null);
 
-    /** Create a provider instance based on the chosen provider */
-    const createProviderInstance = (providerId: string, key: string) => {
-        switch (providerId) {
-            case 'openrouter': return new OpenRouterProvider(key);
-            case 'ollama': return new OllamaProvider('');
-            case 'googleaistudio': return new GoogleAIStudioProvider(key);
-            default: return new GroqProvider(key);
-        }
-    };
-
-    /** Fetch models for the chosen provider */
-    const fetchModelsForProvider = async (providerId: string, key: string) => {
-        switch (providerId) {
-            case 'openrouter': return OpenRouterProvider.fetchModels(key);
-            case 'ollama': return OllamaProvider.fetchModels('');
-            case 'googleaistudio': return GoogleAIStudioProvider.fetchModels(key);
-            default: return GroqProvider.fetchModels(key);
-        }
+    /** Saved config for a provider, with the key being tried */
+    const providerConf = (providerId: string, key: string): ProviderConfig => {
+        const saved = config.getProviderConfig(providerId) || { name: providerId };
+        return { ...saved, apiKey: key || saved.apiKey };
     };
 
-    /** Probe rate limits for the chosen provider */
-    const probeForProvider = async (providerId: string, key: string, modelId: string) => {
-        switch (providerId) {
-            case 'openrouter': return OpenRouterProvider.probeRateLimit(key, modelId);
-            case 'ollama': return OllamaProvider.probeRateLimit('', modelId);
-            case 'googleaistudio': return GoogleAIStudioProvider.probeRateLimit(key, modelId);
-            default: return GroqProvider.probeRateLimit(key, modelId);
-        }
-    };
+    /** Step to return to when validation fails */
+    const retryStep = (provider: RegisteredProvider) =>
+        provider.needsUrl ? 'baseurl' : provider.needsKey ? 'apikey' : 'provider';
 
     const startModelFetch = async (providerId: string, key: string) => {
         setIsValidating(true);
         setError(null);
         setStep('verify');
 
+        const definition = providerRegistry.get(providerId);
+        if (!definition) {
+            setError(`Unknown provider "${providerId}"`);
+            setStep('provider');
+            setIsValidating(false);
+            return;
+        }
+
         try {
-            const provider = createProviderInstance(providerId, key);
-            const isValid = await provider.validateConnection();
+            const conf = providerConf(providerId, key);
+            const isValid = await definition.validateConnection(conf);
             if (!isValid) {
-                setError(providerId === 'ollama'
-                    ? 'Cannot connect to Ollama. Is it running? (ollama serve)'
+                setError(definition.connectionHint
+                    ? `Cannot connect to ${definition.name}. ${definition.connectionHint}`
                     : 'Invalid API key. Please check and try again.');
-                setStep(providerId === 'ollama' ? 'provider' : 'apikey');
+                setStep(retryStep(definition));
                 setIsValidating(false);
                 return;
             }
 
-            if (providerId !== 'ollama') {
+            // Keyless providers (and openai-compatible servers without one) keep no key
+            if (key) {
                 config.setApiKey(providerId, key);
             }
             config.config.provider = providerId;
             config.save();
 
-            const fetchedModels = await fetchModelsForProvider(providerId, key);
+            const fetchedModels = await definition.fetchModels(conf);
 
-            const flatList = buildModelList(fetchedModels);
+            costLedger.rememberPrices(providerId, fetchedModels);
+            const flatList = buildModelList(describeModels(providerId, fetchedModels));
             setAvailableModels(flatList);
             setScrollOffset(0);
             const firstSelectable = flatList.findIndex(m => !m.isHeader);
@@ -155,7 +127,7 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
             setStep('models');
         } catch (err: any) {
             setError(err.message || 'Verification failed');
-            setStep(providerId === 'ollama' ? 'provider' : 'apikey');
+            setStep(retryStep(definition));
         } finally {
             setIsValidating(false);
         }
@@ -165,10 +137,21 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
         // Auto-detect existing provider config
         const currentProvider = config.config.provider;
         if (!currentProvider) return; // No provider set — stay on provider picker
-        const providerInfo = PROVIDERS.find(p => p.id === currentProvider);
+        const providerInfo = providers.find(p => p.id === currentProvider);
         if (providerInfo) {
             setChosenProvider(providerInfo);
-            setSelectedProvider(PROVIDERS.indexOf(providerInfo));
+            setSelectedProvider(providers.indexOf(providerInfo));
+            if (providerInfo.needsUrl) {
+                const conf = config.getProviderConfig(currentProvider);
+                if (conf?.baseUrl) {
+                    setBaseUrl(conf.baseUrl);
+                    setApiKey(conf.apiKey || '');
+                    startModelFetch(currentProvider, conf.apiKey || '');
+                } else {
+                    setStep('baseurl');
+                }
+                return;
+            }
             if (providerInfo.needsKey) {
                 const existing = config.getProviderConfig(currentProvider)?.apiKey;
                 if (existing) {
@@ -177,7 +160,7 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
                     return;
                 }
             } else {
-                // Ollama — no key needed, go straight to model fetch
+                // No key needed (Ollama) — go straight to model fetch
                 startModelFetch(currentProvider, '');
                 return;
             }
@@ -191,9 +174,9 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
 
     const selectModel = async (model: any) => {
         if (!chosenProvider) return;
+        if (model.capabilities?.tools === false) preferTextTools(chosenProvider.id, model.id);
         setStep('probing');
-        const savedKey = config.getProviderConfig(chosenProvider.id)?.apiKey || apiKey;
-        const tpmLimit = await probeForProvider(chosenProvider.id, savedKey, model.id);
+        const tpmLimit = await chosenProvider.probeRateLimit(providerConf(chosenProvider.id, apiKey), model.id);
         config.setModel(chosenProvider.id, model.id, model.contextWindow, tpmLimit || undefined);
         config.save();
         onComplete();
@@ -204,13 +187,19 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
             if (key.upArrow && selectedProvider > 0) {
                 setSelectedProvider(selectedProvider - 1);
             }
-            if (key.downArrow && selectedProvider < PROVIDERS.length - 1) {
+            if (key.downArrow && selectedProvider < providers.length - 1) {
                 setSelectedProvider(selectedProvider + 1);
             }
             if (key.return) {
-                const provider = PROVIDERS[selectedProvider];
+                const provider = providers[selectedProvider];
                 setChosenProvider(provider);
-                if (provider.needsKey) {
+                if (provider.needsUrl) {
+                    const conf = config.getProviderConfig(provider.id);
+                    setBaseUrl(conf?.baseUrl || '');
+                    setApiKey(conf?.apiKey || '');
+                    setError(null);
+                    setStep('baseurl');
+                } else if (provider.needsKey) {
                     // Check for existing key
                     const existing = config.getProviderConfig(provider.id)?.apiKey;
                     if (existing) {
@@ -229,6 +218,12 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
 
         if (step !== 'models') return;
 
+        if (key.escape && warnModel) {
+            setWarnModel(null);
+            return;
+        }
+        if (key.upArrow || key.downArrow) setWarnModel(null);
+
         if (key.upArrow) {
             const curPos = selectableIndices.indexOf(selectedModelIdx);
             if (curPos > 0) {
@@ -252,19 +247,37 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
         }
         if (key.return) {
             const selectedModel = availableModels[selectedModelIdx];
-            if (selectedModel && !selectedModel.isHeader) {
+            if (!selectedModel || selectedModel.isHeader) return;
+            if (selectedModel.capabilities.tools === false && warnModel?.id !== selectedModel.id) {
+                setWarnModel(selectedModel);
+            } else {
                 selectModel(selectedModel);
             }
         }
     });
 
     const validateAndFetchModels = async (key: string) => {
-        if (!key.trim()) {
+        if (!chosenProvider) return;
+        if (!key.trim() && chosenProvider.needsKey) {
             setError('API key cannot be empty.');
             return;
         }
+        await startModelFetch(chosenProvider.id, key.trim());
+    };
+
+    const submitBaseUrl = (url: string) => {
         if (!chosenProvider) return;
-        await startModelFetch(chosenProvider.id, key);
+        const trimmed = url.trim();
+        try {
+            const parsed = new URL(trimmed);
+            if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error();
+        } catch {
+            setError('Enter a full http:// or https:// URL.');
+            return;
+        }
+        config.setBaseUrl(chosenProvider.id, trimmed);
+        setError(null);
+        setStep('apikey');
     };
 
     // ─── Provider Selection ───
@@ -275,7 +288,7 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
                     <Text bold color="#00D26A">{'Setup — Choose Provider'}</Text>
                     <Text color="#666">{'Select an AI provider to get started'}</Text>
                     <Box flexDirection="column" marginTop={1}>
-                        {PROVIDERS.map((p, i) => {
+                        {providers.map((p, i) => {
                             const isSelected = i === selectedProvider;
                             const prefix = isSelected ? '› ' : '  ';
                             return (
@@ -283,11 +296,37 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
                                     <Text color={isSelected ? '#00FF7F' : 'white'} bold={isSelected}>
                                         {`${prefix}${p.name}`}
                                     </Text>
-                                    <Text color="#666">{`  ${p.desc}`}</Text>
+                                    <Text color="#666">{`  ${p.description}`}</Text>
                                 </Box>
                             );
                         })}
                     </Box>
+                    {providerRegistry.loadErrors.map(e => (
+                        <Text key={e} color="#FFA500">{`Provider module failed to load — ${e}`}</Text>
+                    ))}
+                    {error ? <Text color="red">{`${error}`}</Text> : null}
+                </Box>
+            </Box>
+        );
+    }
+
+    // ─── Base URL Entry (OpenAI-compatible servers) ───
+    if (step === 'baseurl' && chosenProvider) {
+        return (
+            <Box flexDirection="column" width="100%">
+                <Box flexDirection="column" borderStyle="round" borderColor="#00D26A" paddingX={2} width="100%">
+                    <Text bold color="#00D26A">{`Setup — ${chosenProvider.name}`}</Text>
+                    <Text color="grey">{'Enter the server base URL.'}</Text>
+                    <Text color="#666">{'/v1 is added if the URL has no version segment'}</Text>
+                    <Box marginTop={1} width="100%">
+                        <Text color="#00D26A">{'> '}</Text>
+                        <TextInput
+                            value={baseUrl}
+                            onChange={setBaseUrl}
+                            onSubmit={submitBaseUrl}
+                            placeholder="http://localhost:8000/v1"
+                        />
+                    </Box>
                     {error ? <Text color="red">{`${error}`}</Text> : null}
                 </Box>
             </Box>
@@ -300,8 +339,8 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
             <Box flexDirection="column" width="100%">
                 <Box flexDirection="column" borderStyle="round" borderColor="#00D26A" paddingX={2} width="100%">
                     <Text bold color="#00D26A">{`Setup — ${chosenProvider.name}`}</Text>
-                    <Text color="grey">{'Enter your API key to get started.'}</Text>
-                    <Text color="#666">{chosenProvider.keyUrl}</Text>
+                    <Text color="grey">{chosenProvider.needsKey ? 'Enter your API key to get started.' : 'Enter an API key if the server needs one.'}</Text>
+                    {chosenProvider.keyUrl ? <Text color="#666">{chosenProvider.keyUrl}</Text> : null}
                     <Box marginTop={1} width="100%">
                         <Text color="#00D26A">{'> '}</Text>
                         <TextInput
@@ -309,7 +348,7 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
                             onChange={setApiKey}
                             onSubmit={validateAndFetchModels}
                             mask="*"
-                            placeholder={chosenProvider.placeholder}
+                            placeholder={chosenProvider.keyPlaceholder}
                         />
                     </Box>
                     {error ? <Text color="red">{`${error}`}</Text> : null}
@@ -361,16 +400,18 @@ export const Setup: React.FC<SetupProps> = ({ onComplete }) => {
                         const isSelected = realIdx === selectedModelIdx;
                         const prefix = isSelected ? '› ' : '  ';
                         const star = model.recommended || model.pinned ? '★ ' : '  ';
-                        const ctx = model.contextWindow ? ` (${(model.contextWindow / 1000).toFixed(0)}k)` : '';
 
                         return (
-                            <Text key={realIdx} color={isSelected ? '#00FF7F' : 'white'}>
-                                {`${prefix}${star}${model.id}${ctx}`}
+                            <Text key={realIdx} color={isSelected ? '#00FF7F' : 'white'} wrap="truncate-end">
+                                {`${prefix}${star}${model.id}`}
+                                {chosenProvider ? <ModelBadges provider={chosenProvider.id} model={model} /> : null}
                             </Text>
                         );
                     })}
 
                     {hasMore ? <Text color="#555">{'  ...'}</Text> : null}
+
+                    {warnModel ? <NoToolsWarning model={warnModel} /> : null}
                 </Box>
             </Box>
         );
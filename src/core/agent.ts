@@ -0,0 +1,651 @@
+
+import { EventEmitter } from 'events';
+import { Message, PermissionDecision, TurnOutcome, AgentEvent, ChatResponse, ToolDefinition, TokenUsage, ImagePart, ToolCall } from './types';
+import { BaseProvider } from '../providers/base';
+import { ToolExecutor } from '../tools/execution';
+import { TOOLS, READ_ONLY_TOOLS } from '../tools/definitions';
+import { SystemPromptManager } from './prompt';
+import { getContextUsage, estimateTokens, estimateMessageTokens, calibratedTokens, emptyUsage, addUsage } from './context';
+import { SessionManager } from './session';
+import { config } from './config';
+import { costLedger, costOf, formatCost } from './cost';
+import { usesTextTools, toolProtocol, enableTextTools, isToolsUnsupportedError, textToolsPrompt, toTextMessages, parseTextToolResponse, previewTextTools } from './texttools';
+import { FallbackTarget, fallbackChain, createFallbackProvider, describeProvider, isRetryableError } from './fallback';
+import { supportsVision, visionError } from './models';
+
+/**
+ * The agent tool loop, shared by the Ink chat UI and headless mode.
+ *
+ * A turn sends the conversation to the provider, runs any tool calls the model
+ * makes (asking `requestPermission` first) and repeats until the model answers
+ * with plain text.  Everything the user should see is reported through
+ * AgentHooks, so the loop itself knows nothing about how it is displayed.
+ * Every step is also emitted as an AgentEvent on the 'event' channel.
+ */
+
+export const MAX_TOOL_DEPTH = 15;
+const SEND_BUDGET_RATIO = 0.80; // use max 80% of limit for input, leave 20% for response
+const FALLBACK_MAX_RETRIES = 1; // with a fallback left, switch to it rather than back off for seconds
+
+// Appended to the system prompt while plan mode is on
+const PLAN_MODE_PROMPT = `PLAN MODE IS ACTIVE. You are in a read-only session: investigate the codebase with ${READ_ONLY_TOOLS.join(', ')} only.
+Do NOT attempt to write files or run commands — those calls will be rejected.
+When you understand the task, reply with a concise, numbered implementation plan (files to change, what to change, commands to run).
+The user will review the plan and decide whether to execute it.`;
+
+// AgentEvent without the timestamp, which is stamped on emit
+type AgentEventInput = AgentEvent extends infer E ? E extends AgentEvent ? Omit<E, 'timestamp'> : never : never;
+
+// One tool call of a batch; content stays null until the call has run
+interface ToolResult {
+    call: ToolCall;
+    content: string | null;
+    images: ImagePart[];
+    finishedAt: number;
+}
+
+const DEFAULT_TOOL_CONCURRENCY = 4;
+
+function toolConcurrency(): number {
+    return Math.max(1, Math.floor(config.config.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY));
+}
+
+/**
+ * Split one response's tool calls into batches that may run together:
+ * consecutive read-only calls share a batch, every other call gets its own,
+ * so writes and commands still run in the order the model gave them.
+ */
+function toolBatches(calls: ToolCall[]): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    for (const call of calls) {
+        const last = batches[batches.length - 1];
+        if (last && READ_ONLY_TOOLS.includes(call.name) && READ_ONLY_TOOLS.includes(last[0].name)) {
+            last.push(call);
+        } else {
+            batches.push([call]);
+        }
+    }
+    return batches;
+}
+
+// Run `fn` over `items` with at most `limit` in flight
+async function runConcurrently<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) await fn(items[next++]);
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+export interface AgentHooks {
+    /** Transcript entries: assistant replies, tool results and system notices */
+    onMessage: (msg: Message) => void;
+    onStatus?: (status: string) => void;
+    /** The response so far while it streams in: text, names of tool calls being assembled, and reasoning */
+    onStream?: (content: string, toolNames: string[], reasoning: string) => void;
+    /** Provider history changed (e.g. refresh the context meter) */
+    onHistoryChange?: () => void;
+    /**
+     * Persist the session, optionally including a message not yet rendered.
+     * Without this hook nothing is saved and compaction cannot fall back to a backup.
+     */
+    saveSession?: (pending?: Message) => void;
+    requestPermission: (toolName: string, args: Record<string, any>) => Promise<PermissionDecision>;
+    /**
+     * The next request would take the session over its budget: resolve true
+     * to go on for the rest of the turn.  Without this hook the turn stops.
+     */
+    confirmBudget?: (spent: number, budget: number) => Promise<boolean>;
+}
+
+export interface Agent {
+    on(event: 'event', listener: (event: AgentEvent) => void): this;
+    off(event: 'event', listener: (event: AgentEvent) => void): this;
+}
+
+export class Agent extends EventEmitter {
+    hooks: AgentHooks;
+    /** Offer only read-only tools and refuse everything else */
+    planMode = false;
+    /** The last text answer given in plan mode */
+    plan = '';
+    /** The last text answer of the most recent turn */
+    lastAnswer = '';
+    /** Provider and model that gave the most recent response, e.g. `Groq (qwen-2.5-coder-32b)` */
+    answeredBy = '';
+    /** Tokens reported by providers during the current (or last) turn */
+    turnUsage: TokenUsage = emptyUsage();
+    /** Tokens reported by providers since the agent was created */
+    sessionUsage: TokenUsage = emptyUsage();
+    private executor: ToolExecutor;
+    private signal?: AbortSignal;
+    // Fallback targets not yet tried this turn, providers already tried, and the one in use
+    private fallbacks: FallbackTarget[] = [];
+    private tried = new Set<string>();
+    private active?: BaseProvider;
+    // Cost ledger turn number, and whether going over budget was approved for it
+    private turn = 0;
+    private overBudgetApproved = false;
+
+    constructor(executor: ToolExecutor, hooks: AgentHooks) {
+        super();
+        this.executor = executor;
+        this.hooks = hooks;
+    }
+
+    /** Add a user message, with any attached images, and run the tool loop until the model answers. */
+    async runTurn(provider: BaseProvider, prompt: string, signal?: AbortSignal, images: ImagePart[] = []): Promise<TurnOutcome> {
+        this.signal = signal;
+        this.lastAnswer = '';
+        this.answeredBy = describeProvider(provider);
+        this.turnUsage = emptyUsage();
+        this.turn = costLedger.beginTurn();
+        this.overBudgetApproved = false;
+        this.fallbacks = fallbackChain();
+        this.tried = new Set([this.answeredBy]);
+        provider.maxRetries = this.fallbackRetries();
+        this.active = provider;
+        let outcome: TurnOutcome = 'error';
+        try {
+            if (images.length > 0 && !supportsVision(provider)) {
+                this.fail(visionError(provider));
+                return outcome;
+            }
+            provider.addMessage('user', prompt, images.length > 0 ? { images } : undefined);
+            this.record({ type: 'user_message', message: { role: 'user', content: prompt } });
+            this.hooks.onHistoryChange?.();
+            // Smart context management — fits within TPM before sending
+            await this.ensureContextFits(provider);
+            outcome = await this.processResponse(provider);
+        } catch (error: any) {
+            this.fail(error?.message || String(error));
+        } finally {
+            // A fallback continued the conversation; hand it back so the next turn tries the primary first.
+            // Its calibration was measured with another model's tokenizer, so the primary recalibrates
+            if (this.active && this.active !== provider) {
+                provider.setHistory(this.active.conversationHistory);
+                this.hooks.onHistoryChange?.();
+            }
+            this.active = undefined;
+            this.signal = undefined;
+            this.record({ type: 'turn_end', outcome, provider: this.answeredBy, usage: { ...this.turnUsage }, cost: costLedger.turnCost(this.turn) });
+        }
+        return outcome;
+    }
+
+    // Summarize and compact conversation when context is too large
+    async summarizeContext(currentProvider: BaseProvider): Promise<void> {
+        this.hooks.onStatus?.('Compacting context...');
+        const persist = !!this.hooks.saveSession;
+        const percentage = this.usage(currentProvider).percentage;
+        const beforeTokens = this.tokenCount(currentProvider);
+
+        // SAVE BACKUP before compaction — if anything fails, we can restore
+        if (persist) {
+            this.hooks.saveSession!();
+            SessionManager.backup();
+        }
+
+        // Build process state string for the summary prompt
+        const procSnap = this.executor.getProcessSnapshot();
+        const procState = procSnap.length > 0
+            ? '\n\nACTIVE BACKGROUND PROCESSES:\n' + procSnap.map(p =>
+                `- ${p.id}: ${p.command} (${p.running ? 'RUNNING' : 'EXITED'}, pid:${p.pid}${p.port ? ', port:' + p.port : ''}, since ${p.startTime})`
+            ).join('\n')
+            : '';
+
+        const summaryPrompt: Message = {
+            role: 'user',
+            content: `The conversation context is being compacted. Generate a structured summary that will REPLACE the entire conversation history. The next message after this summary will continue the task, so include ALL information needed.
+
+Format your summary EXACTLY like this:
+
+## TASK
+[What the user originally asked for, and the overall goal]
+
+## COMPLETED
+[Bullet list of everything done so far, with file paths and key details]
+
+## FILES MODIFIED
+[List every file created/modified with its path and what it contains]
+
+## CURRENT STATE
+[What is working, what was the last action taken, what is the immediate next step]
+
+## PENDING
+[What remains to be done]
+
+## ERRORS & DECISIONS
+[Any errors encountered and how they were resolved, key technical decisions made]
+
+## ENVIRONMENT
+- Working directory: ${process.cwd()}
+- Platform: ${process.platform}${procState}
+
+Be thorough and specific. Include exact file paths, package names, port numbers, commands used. This summary is the AI's ONLY memory of the conversation.`
+        };
+
+        try {
+            const systemPrompt = SystemPromptManager.getSystemPrompt();
+            // A model on the text tool protocol may reject native tool messages
+            const history = usesTextTools(currentProvider)
+                ? toTextMessages(currentProvider.conversationHistory)
+                : currentProvider.conversationHistory;
+            const response = await currentProvider.chatWithTools(
+                [...history, summaryPrompt],
+                [],
+                systemPrompt
+            );
+            this.countUsage(currentProvider, response.usage);
+
+            const summary = response.content || 'Previous conversation context.';
+
+            currentProvider.clearHistory();
+            currentProvider.addMessage('user', '[CONTEXT COMPACTED] The conversation was compacted to save context. Below is a comprehensive summary of everything so far. Continue the task from where you left off. Do NOT re-do completed work.');
+            currentProvider.addMessage('assistant', summary);
+
+            this.notify(`Context compacted (was ${percentage}%). Summary preserved.`);
+            this.record({ type: 'compaction', strategy: 'summarize', beforeTokens, afterTokens: this.tokenCount(currentProvider), ok: true });
+            this.hooks.onHistoryChange?.();
+        } catch (err: any) {
+            // Compaction failed (network error) — restore from backup
+            const backup = persist ? SessionManager.restoreBackup() : null;
+            if (backup && backup.history.length > 0) {
+                currentProvider.setHistory(backup.history);
+                this.notify('Compaction failed, context restored from backup.');
+            } else {
+                // No backup available, trim oldest messages as last resort
+                const history = currentProvider.conversationHistory;
+                const keepCount = Math.floor(history.length / 3);
+                const kept = history.slice(-keepCount);
+                currentProvider.setHistory(kept);
+            }
+            this.record({ type: 'compaction', strategy: 'summarize', beforeTokens, afterTokens: this.tokenCount(currentProvider), ok: false });
+            this.hooks.onHistoryChange?.();
+        }
+    }
+
+    /**
+     * Ensure conversation fits within the TPM budget before sending to API.
+     * Strategy:
+     *  1. Truncate large tool results (keep first/last 200 chars)
+     *  2. Drop old tool result pairs if still over
+     *  3. If still over, trigger full summarization
+     * Returns true if context is within budget, false if still over after all attempts.
+     */
+    async ensureContextFits(currentProvider: BaseProvider): Promise<boolean> {
+        const maxTokens = this.usage(currentProvider).maxTokens;
+
+        const budget = Math.floor(maxTokens * SEND_BUDGET_RATIO);
+
+        const currentTokens = () => this.tokenCount(currentProvider);
+
+        // Already within budget
+        const initialTokens = currentTokens();
+        if (initialTokens <= budget) return true;
+
+        // Pass 1: Truncate large tool results in history (keep summary)
+        for (const msg of currentProvider.conversationHistory) {
+            if (msg.role === 'tool' && msg.content.length > 800) {
+                const lines = msg.content.split('\n');
+                const headerLines = lines.filter(l => /^[A-Z_]+:/.test(l));
+                const header = headerLines.join('\n');
+                const bodyStart = msg.content.indexOf('---');
+                const body = bodyStart >= 0 ? msg.content.substring(bodyStart + 4) : msg.content;
+                const truncBody = body.substring(0, 200) + '\n... (truncated)';
+                msg.content = header ? `${header}\n---\n${truncBody}` : truncBody;
+            }
+        }
+
+        const truncatedTokens = currentTokens();
+        this.record({ type: 'compaction', strategy: 'truncate', beforeTokens: initialTokens, afterTokens: truncatedTokens, ok: truncatedTokens <= budget });
+        if (truncatedTokens <= budget) {
+            this.hooks.onHistoryChange?.();
+            return true;
+        }
+
+        // Pass 2: Drop old tool result/call pairs (keep last 4 exchanges)
+        const history = currentProvider.conversationHistory;
+        let i = 0;
+        while (i < history.length - 8 && currentTokens() > budget) {
+            if (history[i].role === 'tool') {
+                history.splice(i, 1);
+            } else {
+                i++;
+            }
+        }
+        currentProvider.conversationHistory = history;
+
+        const droppedTokens = currentTokens();
+        this.record({ type: 'compaction', strategy: 'drop', beforeTokens: truncatedTokens, afterTokens: droppedTokens, ok: droppedTokens <= budget });
+        if (droppedTokens <= budget) {
+            this.hooks.onHistoryChange?.();
+            return true;
+        }
+
+        // Pass 3: Full summarization
+        this.hooks.onStatus?.('Context too large, compacting...');
+        // Notification only — not added to provider history
+        this.notify(`Auto-compacting context to fit within ${(maxTokens / 1000).toFixed(0)}k token limit.`);
+        await this.summarizeContext(currentProvider);
+
+        return currentTokens() <= budget;
+    }
+
+    async processResponse(currentProvider: BaseProvider, depth: number = 0): Promise<TurnOutcome> {
+        if (depth >= MAX_TOOL_DEPTH) {
+            this.notify('Tool call depth limit reached.');
+            return 'depth_limit';
+        }
+
+        // Check if cancelled
+        if (this.signal?.aborted) {
+            this.notify('Request cancelled.');
+            return 'cancelled';
+        }
+
+        try {
+            const planning = this.planMode;
+            const systemPrompt = planning
+                ? SystemPromptManager.getContextualPrompt(PLAN_MODE_PROMPT)
+                : SystemPromptManager.getSystemPrompt();
+
+            // Ensure context fits within TPM budget before sending
+            await this.ensureContextFits(currentProvider);
+
+            if (!(await this.withinBudget(currentProvider))) return 'budget';
+
+            const estimatedTokens = this.estimate(currentProvider);
+            const response = await this.streamResponse(
+                currentProvider,
+                planning ? TOOLS.filter(t => READ_ONLY_TOOLS.includes(t.name)) : TOOLS,
+                systemPrompt
+            );
+            this.countUsage(currentProvider, response.usage);
+            if (response.usage?.promptTokens) {
+                currentProvider.contextCalibration = { promptTokens: response.usage.promptTokens, estimatedTokens };
+            }
+            this.answeredBy = describeProvider(currentProvider);
+            this.record({ type: 'assistant_response', response, depth, provider: this.answeredBy });
+
+            if (response.type === 'error') {
+                const errContent = response.content || 'Unknown error';
+                // Handle user cancellation cleanly
+                if (errContent.includes('cancelled by user') || this.signal?.aborted) {
+                    this.notify('Request cancelled.');
+                    return 'cancelled';
+                }
+                // The model rejected the tools parameter — describe the tools in the prompt instead
+                if (isToolsUnsupportedError(errContent) && !toolProtocol(currentProvider)) {
+                    enableTextTools(currentProvider);
+                    this.notify(`${describeProvider(currentProvider)} does not support native tool calls — switching to text tool calls for this model.`);
+                    return await this.processResponse(currentProvider, depth);
+                }
+                // Rate limits, server errors, unreachable host — re-issue the conversation to the next fallback
+                if (isRetryableError(response)) {
+                    const next = this.nextFallback(currentProvider);
+                    if (next) {
+                        const from = describeProvider(currentProvider);
+                        const to = describeProvider(next);
+                        this.notify(`${from} failed (${errContent.split('\n')[0].substring(0, 120)}) — retrying with ${to}.`);
+                        this.record({ type: 'fallback', from, to, error: errContent });
+                        this.active = next;
+                        return await this.processResponse(next, depth);
+                    }
+                }
+                // Handle 413 / rate limit errors by auto-compacting and retrying once
+                if (errContent.includes('413') || errContent.includes('Request too large') || errContent.includes('tokens per minute')) {
+                    this.hooks.onStatus?.('Request too large, compacting context...');
+                    this.notify('Hit token limit, auto-compacting...');
+                    await this.summarizeContext(currentProvider);
+                    this.hooks.onHistoryChange?.();
+                    // Retry once after compaction
+                    return await this.processResponse(currentProvider, depth + 1);
+                }
+                this.fail(errContent);
+                currentProvider.addMessage('assistant', errContent);
+                this.hooks.onHistoryChange?.();
+                return 'error';
+            }
+
+            // Kept for display; providers leave reasoning out of requests
+            const reasoning = response.reasoning ? { reasoning: response.reasoning } : {};
+
+            if (response.type === 'text') {
+                const assistantMsg: Message = { role: 'assistant', content: response.content || '', ...reasoning };
+                this.hooks.onMessage(assistantMsg);
+                currentProvider.addMessage('assistant', response.content || '', reasoning);
+                this.hooks.onHistoryChange?.();
+                this.hooks.onStatus?.('');
+                this.lastAnswer = response.content || '';
+                // The last answer given in plan mode is the plan
+                if (planning && response.content?.trim()) this.plan = response.content;
+                // Auto-save session after complete exchange
+                this.hooks.saveSession?.(assistantMsg);
+                return 'done';
+            }
+
+            if (response.type === 'tool_use' && response.tool_calls) {
+                const assistantMsg: Message = {
+                    role: 'assistant',
+                    content: response.content || '',
+                    tool_calls: response.tool_calls,
+                    ...reasoning
+                };
+                this.hooks.onMessage(assistantMsg);
+                currentProvider.addMessage('assistant', response.content || '', { tool_calls: response.tool_calls, ...reasoning });
+
+                for (const batch of toolBatches(response.tool_calls)) {
+                    // Check abortion between tool calls
+                    if (this.signal?.aborted) {
+                        this.notify('Request cancelled.');
+                        return 'cancelled';
+                    }
+
+                    this.hooks.onStatus?.(batch.length > 1 ? `Running ${batch.length} tools...` : `Running ${batch[0].name}...`);
+                    const startedAt = Date.now();
+
+                    // Permission prompts one at a time, in call order; then the allowed calls run together
+                    const results: ToolResult[] = [];
+                    for (const call of batch) {
+                        this.record({ type: 'tool_call', call });
+                        results.push({ call, content: await this.checkPermission(call, planning), images: [], finishedAt: 0 });
+                    }
+                    await runConcurrently(results, toolConcurrency(), async result => {
+                        if (result.content === null) {
+                            result.content = await this.executor.execute(result.call.name, result.call.arguments, result.images);
+                            this.keepImagesFrom(result, currentProvider);
+                        }
+                        result.finishedAt = Date.now();
+                    });
+
+                    // Results go into history in the order of the calls
+                    for (const { call, content, images, finishedAt } of results) {
+                        const toolMsg: Message = {
+                            role: 'tool',
+                            content: content!,
+                            tool_call_id: call.id,
+                            tool_name: call.name
+                        };
+                        this.hooks.onMessage(toolMsg);
+                        this.record({ type: 'tool_result', call, message: toolMsg, durationMs: finishedAt - startedAt });
+                        currentProvider.addMessage('tool', content!, images.length > 0 ? { tool_call_id: call.id, images } : { tool_call_id: call.id });
+                        this.hooks.onHistoryChange?.();
+                    }
+                }
+
+                this.hooks.onStatus?.('Processing...');
+                return await this.processResponse(currentProvider, depth + 1);
+            }
+
+            return 'done';
+        } catch (error: any) {
+            this.fail(error?.message || String(error));
+            this.hooks.onStatus?.('');
+
+            // If context is suspiciously small after error, restore from backup
+            if (this.hooks.saveSession && currentProvider.conversationHistory.length <= 3) {
+                const backup = SessionManager.restoreBackup();
+                if (backup && backup.history.length > currentProvider.conversationHistory.length) {
+                    currentProvider.setHistory(backup.history);
+                    this.notify('Context restored from backup after error.');
+                    this.hooks.onHistoryChange?.();
+                }
+            }
+            return 'error';
+        }
+    }
+
+    // Retry limit for a provider while untried fallbacks remain; the last one retries as usual
+    private fallbackRetries(): number | undefined {
+        return this.fallbacks.length > 0 ? FALLBACK_MAX_RETRIES : undefined;
+    }
+
+    // Next untried fallback that can be built, continuing `current`'s conversation
+    private nextFallback(current: BaseProvider): BaseProvider | null {
+        while (this.fallbacks.length > 0) {
+            const target = this.fallbacks.shift()!;
+            try {
+                const next = createFallbackProvider(target, current);
+                const label = describeProvider(next);
+                if (this.tried.has(label)) continue;
+                this.tried.add(label);
+                next.maxRetries = this.fallbackRetries();
+                return next;
+            } catch {
+                // Misconfigured entry — try the next one
+            }
+        }
+        return null;
+    }
+
+    private usage(provider: BaseProvider) {
+        return getContextUsage(provider.conversationHistory, provider.systemPrompt, provider.model || '', provider.contextCalibration);
+    }
+
+    // Stream the next response, reporting partial output through onStream
+    private async streamResponse(provider: BaseProvider, tools: ToolDefinition[], system: string): Promise<ChatResponse> {
+        if (usesTextTools(provider) && tools.length > 0) return this.streamTextToolResponse(provider, tools, system);
+
+        let content = '';
+        let reasoning = '';
+        const toolNames: string[] = [];
+
+        for await (const event of provider.streamWithTools(provider.conversationHistory, tools, system, this.signal)) {
+            if (event.type === 'done') return event.response;
+            if (event.type === 'text') {
+                content += event.delta;
+            } else if (event.type === 'reasoning') {
+                reasoning += event.delta;
+            } else {
+                toolNames[event.index] = event.name;
+            }
+            this.hooks.onStream?.(content, toolNames.filter(Boolean), reasoning);
+        }
+        return { type: 'error', content: 'Response stream ended without a result' };
+    }
+
+    // Text tool protocol: tools described in the prompt, calls parsed out of the answer
+    private async streamTextToolResponse(provider: BaseProvider, tools: ToolDefinition[], system: string): Promise<ChatResponse> {
+        let content = '';
+        let reasoning = '';
+        const messages = toTextMessages(provider.conversationHistory);
+
+        for await (const event of provider.streamWithTools(messages, [], system + textToolsPrompt(tools), this.signal)) {
+            if (event.type === 'done') return parseTextToolResponse(event.response, tools);
+            if (event.type === 'reasoning') {
+                reasoning += event.delta;
+            } else if (event.type === 'text') {
+                content += event.delta;
+            } else {
+                continue;
+            }
+            const preview = previewTextTools(content, tools);
+            this.hooks.onStream?.(preview.content, preview.toolNames, reasoning);
+        }
+        return { type: 'error', content: 'Response stream ended without a result' };
+    }
+
+    // Uncalibrated estimate of the history and system prompt
+    private estimate(provider: BaseProvider): number {
+        let tokens = estimateMessageTokens(provider.conversationHistory);
+        if (provider.systemPrompt) tokens += estimateTokens(provider.systemPrompt);
+        return tokens;
+    }
+
+    private tokenCount(provider: BaseProvider): number {
+        return calibratedTokens(this.estimate(provider), provider.contextCalibration);
+    }
+
+    private countUsage(provider: BaseProvider, usage?: TokenUsage): void {
+        addUsage(this.turnUsage, usage);
+        addUsage(this.sessionUsage, usage);
+        costLedger.record(provider.providerId || provider.name, provider.model || '', usage);
+    }
+
+    // Check the session budget before a request, counting the prompt at the full input price
+    private async withinBudget(provider: BaseProvider): Promise<boolean> {
+        const budget = config.config.budget;
+        if (!budget || this.overBudgetApproved) return true;
+
+        const spent = costLedger.total;
+        const price = costLedger.priceFor(provider.providerId || provider.name, provider.model || '');
+        const next = price ? costOf({ promptTokens: this.tokenCount(provider), completionTokens: 0, cachedTokens: 0 }, price) : 0;
+        if (spent + next <= budget) return true;
+
+        if (this.hooks.confirmBudget && await this.hooks.confirmBudget(spent, budget)) {
+            this.overBudgetApproved = true;
+            return true;
+        }
+        this.fail(`Session budget of ${formatCost(budget)} reached (${formatCost(spent)} spent). Stopped before the next request.`);
+        return false;
+    }
+
+    // The refusal for a call that may not run, or null when it may
+    private async checkPermission(call: ToolCall, planning: boolean): Promise<string | null> {
+        if (planning && !READ_ONLY_TOOLS.includes(call.name)) {
+            // Plan mode is read-only — refuse without prompting
+            this.record({ type: 'permission', call, decision: { allowed: false, reason: 'plan mode is read-only' } });
+            return `ERROR: ${call.name} is not available in plan mode\nPlan mode is read-only. Use ${READ_ONLY_TOOLS.join(', ')} to investigate, then present your plan; the user will exit plan mode to execute it.`;
+        }
+
+        const decision = await this.hooks.requestPermission(call.name, call.arguments);
+        this.record({ type: 'permission', call, decision });
+        if (decision.allowed) return null;
+
+        let result = decision.deniedByRule
+            ? `Permission denied by rule ${decision.deniedByRule} for ${call.name}. Do not retry this call; ask the user or choose another approach.`
+            : decision.reason
+                ? `Permission denied for ${call.name}: ${decision.reason}`
+                : `Permission denied by user for ${call.name}`;
+        if (decision.feedback) {
+            result += `\nUSER FEEDBACK: ${decision.feedback}\nAdjust your approach based on this feedback.`;
+        }
+        this.notify(decision.deniedByRule
+            ? `Blocked by rule: ${decision.deniedByRule}`
+            : decision.reason ? `Blocked: ${call.name} — ${decision.reason}`
+            : decision.feedback ? `Blocked: ${call.name} — feedback sent: ${decision.feedback}` : `Blocked: ${call.name}`);
+        return result;
+    }
+
+    // Keep images out of the history of a model that cannot see them
+    private keepImagesFrom(result: ToolResult, provider: BaseProvider): void {
+        if (result.images.length === 0 || supportsVision(provider)) return;
+        result.content = result.content!.replace(/^Image attached\.$/gm, `Image not attached: ${provider.model || provider.name} does not accept images.`);
+        result.images = [];
+    }
+
+    private notify(content: string): void {
+        this.hooks.onMessage({ role: 'system', content });
+    }
+
+    // Show an error in the transcript and the event stream
+    private fail(error: string): void {
+        this.notify(`Error: ${error}`);
+        this.record({ type: 'error', error });
+    }
+
+    private record(event: AgentEventInput): void {
+        this.emit('event', { timestamp: new Date().toISOString(), ...event } as AgentEvent);
+    }
+}
@@ -0,0 +1,181 @@
+
+import path from 'path';
+import fs from 'fs-extra';
+
+/**
+ * Per-turn file checkpoints.
+ *
+ * Before the agent writes a file, the file's pre-image is copied into
+ * `.cloude/checkpoints/<id>/` under the project directory.  One checkpoint
+ * covers one user turn, and only the FIRST pre-image of each file in that
+ * turn is kept — that is the state the user saw before they hit Enter.
+ * Reverting a checkpoint restores those pre-images (and deletes files the
+ * agent created), so a bad multi-file change can be rolled back without git.
+ */
+
+const CHECKPOINT_DIR_NAME = path.join('.cloude', 'checkpoints');
+const MANIFEST_FILE = 'checkpoint.json';
+const MAX_CHECKPOINTS = 50;
+
+interface CheckpointFile {
+    path: string;
+    /** false when the agent created the file — reverting deletes it */
+    existed: boolean;
+    /** Name of the pre-image blob inside the checkpoint's files/ dir */
+    blob?: string;
+}
+
+export interface Checkpoint {
+    id: string;
+    prompt: string;
+    createdAt: string;
+    files: CheckpointFile[];
+}
+
+export interface RevertResult {
+    checkpoints: number;
+    restored: string[];
+    deleted: string[];
+    failed: string[];
+    /** Checkpoints left on disk because some of their files failed to revert */
+    kept: string[];
+}
+
+export class CheckpointManager {
+    private root: string;
+    private pendingPrompt: string | null = null;
+    private current: Checkpoint | null = null;
+
+    constructor(projectDir: string = process.cwd()) {
+        this.root = path.join(projectDir, CHECKPOINT_DIR_NAME);
+    }
+
+    /**
+     * Mark the start of a new user turn.
+     * The checkpoint itself is only created once the agent touches a file.
+     */
+    beginTurn(prompt: string): void {
+        this.pendingPrompt = prompt;
+        this.current = null;
+    }
+
+    /** Record the pre-image of a file the agent is about to write. */
+    record(absPath: string): void {
+        try {
+            if (!this.current) {
+                if (this.pendingPrompt === null) return;
+                this.current = this.create(this.pendingPrompt);
+            }
+            if (this.current.files.some(f => f.path === absPath)) return;
+
+            const dir = path.join(this.root, this.current.id);
+            const entry: CheckpointFile = { path: absPath, existed: fs.existsSync(absPath) };
+            if (entry.existed) {
+                entry.blob = String(this.current.files.length);
+                fs.ensureDirSync(path.join(dir, 'files'));
+                fs.copyFileSync(absPath, path.join(dir, 'files', entry.blob));
+            }
+            this.current.files.push(entry);
+            fs.writeJsonSync(path.join(dir, MANIFEST_FILE), this.current, { spaces: 2 });
+        } catch {
+            // Silent fail — a missing checkpoint must never block a write
+        }
+    }
+
+    /** All checkpoints, newest first. */
+    list(): Checkpoint[] {
+        try {
+            if (!fs.existsSync(this.root)) return [];
+            const checkpoints: Checkpoint[] = [];
+            for (const id of fs.readdirSync(this.root)) {
+                const manifest = path.join(this.root, id, MANIFEST_FILE);
+                if (!fs.existsSync(manifest)) continue;
+                try {
+                    checkpoints.push(fs.readJsonSync(manifest) as Checkpoint);
+                } catch {
+                    // Corrupted manifest — skip it
+                }
+            }
+            return checkpoints.sort((a, b) => b.id.localeCompare(a.id));
+        } catch {
+            return [];
+        }
+    }
+
+    /** Revert the most recent checkpoint (the last turn that changed files). */
+    undo(): RevertResult {
+        return this.rewind(1);
+    }
+
+    /**
+     * Revert the `count` most recent checkpoints, newest first, so files end up
+     * as they were before the oldest of them.  Reverted checkpoints are removed,
+     * except those with a file that failed to revert: they stay on disk so the
+     * saved copy is not lost and the revert can be retried.
+     */
+    rewind(count: number): RevertResult {
+        const targets = this.list().slice(0, Math.max(0, count));
+        // Final action per file — an older checkpoint overrides a newer one
+        const actions = new Map<string, 'restored' | 'deleted'>();
+        const failed: string[] = [];
+        const kept: string[] = [];
+
+        for (const cp of targets) {
+            const dir = path.join(this.root, cp.id);
+            const failedBefore = failed.length;
+            for (const file of cp.files) {
+                try {
+                    if (file.existed && file.blob !== undefined) {
+                        fs.ensureDirSync(path.dirname(file.path));
+                        fs.copyFileSync(path.join(dir, 'files', file.blob), file.path);
+                        actions.set(file.path, 'restored');
+                    } else {
+                        fs.removeSync(file.path);
+                        actions.set(file.path, 'deleted');
+                    }
+                } catch {
+                    failed.push(file.path);
+                }
+            }
+            if (failed.length > failedBefore) kept.push(cp.id);
+            else fs.removeSync(dir);
+            if (this.current?.id === cp.id) this.current = null;
+        }
+
+        const entries = Array.from(actions.entries());
+        return {
+            checkpoints: targets.length,
+            restored: entries.filter(([, a]) => a === 'restored').map(([p]) => p),
+            deleted: entries.filter(([, a]) => a === 'deleted').map(([p]) => p),
+            failed,
+            kept,
+        };
+    }
+
+    private create(prompt: string): Checkpoint {
+        // Sortable, unique-enough id: timestamp plus a short random suffix
+        const id = `${new Date().toISOString().replace(/[:.]/g, '-')}_${Math.random().toString(36).slice(2, 6)}`;
+        const checkpoint: Checkpoint = {
+            id,
+            prompt: prompt.length > 200 ? prompt.substring(0, 200) + '...' : prompt,
+            createdAt: new Date().toISOString(),
+            files: [],
+        };
+        fs.ensureDirSync(path.join(this.root, id));
+        this.prune();
+        return checkpoint;
+    }
+
+    private prune(): void {
+        const all = this.list();
+        for (const cp of all.slice(MAX_CHECKPOINTS - 1)) {
+            try {
+                fs.removeSync(path.join(this.root, cp.id));
+            } catch {
+                // Silent fail
+            }
+        }
+    }
+}
+
+export const checkpoints = new CheckpointManager();
@@ -2,7 +2,8 @@
 import os from 'os';
 import path from 'path';
 import fs from 'fs-extra';
-import { ConfigType, ProviderConfig } from './types';
+import { ConfigType, ProviderConfig, PermissionRule, PermissionRules } from './types';
+import { providerRegistry } from '../providers/registry';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -13,36 +14,24 @@ const CONFIG_DIR = os.platform() === 'win32'
 
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
+// Per-project overrides live next to the checkpoints in the project directory
+const PROJECT_CONFIG_FILE = path.join(process.cwd(), '.cloude', 'config.json');
+
 const DEFAULT_CONFIG: ConfigType = {
     provider: 'groq',
-    providers: {
-        groq: {
-            name: 'Groq',
-            model: 'qwen-2.5-coder-32b',
-            enabled: true
-        },
-        openrouter: {
-            name: 'OpenRouter',
-            model: 'anthropic/claude-3.5-sonnet',
-            enabled: true
-        },
-        googleaistudio: {
-            name: 'Google AI Studio',
-            model: 'gemini-1.5-flash',
-            enabled: true
-        },
-        ollama: {
-            name: 'Ollama',
-            model: 'qwen2.5-coder:32b',
-            enabled: true
-        }
-    },
+    // One entry per built-in provider
+    providers: Object.fromEntries(providerRegistry.list().map(p => [
+        p.id,
+        { name: p.name, model: p.defaultModel, enabled: true }
+    ])),
     theme: 'default',
     maxTokens: 8192
 };
 
 export class ConfigManager {
     config: ConfigType;
+    /** Project-level settings (currently only permission rules) */
+    projectConfig: Partial<ConfigType> = {};
 
     constructor() {
         this.config = DEFAULT_CONFIG;
@@ -65,38 +54,32 @@ export class ConfigManager {
             // Ignore errors, use defaults
         }
 
-        // Load env vars
-        this.loadEnvKeys();
-    }
-
-    loadEnvKeys() {
-        const groqKey = process.env.GROQ_API_KEY;
-        if (groqKey) {
-            if (!this.config.providers.groq) {
-                this.config.providers.groq = { name: 'Groq', model: 'qwen-2.5-coder-32b', enabled: true };
-            }
-            if (!this.config.providers.groq.apiKey) {
-                this.config.providers.groq.apiKey = groqKey;
+        try {
+            if (fs.existsSync(PROJECT_CONFIG_FILE)) {
+                this.projectConfig = fs.readJsonSync(PROJECT_CONFIG_FILE);
             }
+        } catch (error) {
+            // Ignore errors, project config is optional
         }
 
-        const orKey = process.env.OPENROUTER_API_KEY;
-        if (orKey) {
-            if (!this.config.providers.openrouter) {
-                this.config.providers.openrouter = { name: 'OpenRouter', model: 'anthropic/claude-3.5-sonnet', enabled: true };
-            }
-            if (!this.config.providers.openrouter.apiKey) {
-                this.config.providers.openrouter.apiKey = orKey;
-            }
+        // Third-party providers — global config only, never from a project's .cloude/
+        if (this.config.providerModules?.length) {
+            providerRegistry.loadModules(this.config.providerModules, CONFIG_DIR);
         }
 
-        const googleKey = process.env.GOOGLE_AI_STUDIO_API_KEY;
-        if (googleKey) {
-            if (!this.config.providers.googleaistudio) {
-                this.config.providers.googleaistudio = { name: 'Google AI Studio', model: 'gemini-1.5-flash', enabled: true };
+        // Load env vars
+        this.loadEnvKeys();
+    }
+
+    loadEnvKeys() {
+        for (const provider of providerRegistry.list()) {
+            const key = provider.envVar && process.env[provider.envVar];
+            if (!key) continue;
+            if (!this.config.providers[provider.id]) {
+                this.config.providers[provider.id] = { name: provider.name, model: provider.defaultModel, enabled: true };
             }
-            if (!this.config.providers.googleaistudio.apiKey) {
-                this.config.providers.googleaistudio.apiKey = googleKey;
+            if (!this.config.providers[provider.id].apiKey) {
+                this.config.providers[provider.id].apiKey = key;
             }
         }
     }
@@ -110,6 +93,39 @@ export class ConfigManager {
         }
     }
 
+    saveProject() {
+        try {
+            fs.ensureDirSync(path.dirname(PROJECT_CONFIG_FILE));
+            fs.writeJsonSync(PROJECT_CONFIG_FILE, this.projectConfig, { spaces: 2 });
+        } catch (error) {
+            console.error('Failed to save project config:', error);
+        }
+    }
+
+    /** Permission rules from global and project config combined */
+    getPermissionRules(): Required<PermissionRules> {
+        const global = this.config.permissions || {};
+        const project = this.projectConfig.permissions || {};
+        return {
+            allow: [...(project.allow || []), ...(global.allow || [])],
+            deny: [...(project.deny || []), ...(global.deny || [])],
+        };
+    }
+
+    addPermissionRule(kind: 'allow' | 'deny', rule: PermissionRule, scope: 'project' | 'global' = 'project') {
+        const target = scope === 'project' ? this.projectConfig : this.config;
+        if (!target.permissions) target.permissions = {};
+        const list = target.permissions[kind] || (target.permissions[kind] = []);
+        if (!list.some(r => r.tool === rule.tool && r.pattern === rule.pattern)) {
+            list.push(rule);
+        }
+        if (scope === 'project') {
+            this.saveProject();
+        } else {
+            this.save();
+        }
+    }
+
     getProviderConfig(name: string): ProviderConfig | undefined {
         return this.config.providers[name];
     }
@@ -122,6 +138,20 @@ export class ConfigManager {
         this.save();
     }
 
+    setBaseUrl(provider: string, baseUrl: string) {
+        if (!this.config.providers[provider]) {
+            this.config.providers[provider] = { name: provider };
+        }
+        this.config.providers[provider].baseUrl = baseUrl;
+        this.save();
+    }
+
+    setToolProtocol(key: string, protocol: 'native' | 'text') {
+        if (!this.config.toolProtocol) this.config.toolProtocol = {};
+        this.config.toolProtocol[key] = protocol;
+        this.save();
+    }
+
     setModel(provider: string, model: string, contextWindow?: number, tpmLimit?: number) {
         if (!this.config.providers[provider]) {
             this.config.providers[provider] = { name: provider };
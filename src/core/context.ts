@@ -1,11 +1,15 @@
 
 /**
  * Lightweight token estimator.
- * Uses ~4 chars per token heuristic (good enough for context tracking).
+ * Uses ~4 chars per token heuristic, corrected by the real prompt counts
+ * providers report (see ContextCalibration).
  * No external dependency needed.
  */
 
-import { Message } from './types';
+import { Message, TokenUsage, ContextCalibration } from './types';
+
+// A screenshot-sized image; providers bill 85-1800 tokens depending on size
+const IMAGE_TOKENS = 1500;
 
 // Approximate tokens from a string (~4 chars = 1 token)
 export function estimateTokens(text: string): number {
@@ -20,6 +24,7 @@ export function estimateMessageTokens(messages: Message[]): number {
         total += estimateTokens(msg.content);
         // Each message has ~4 tokens overhead (role, formatting)
         total += 4;
+        total += (msg.images?.length || 0) * IMAGE_TOKENS;
         if (msg.tool_calls) {
             for (const tc of msg.tool_calls) {
                 total += estimateTokens(tc.name);
@@ -31,6 +36,34 @@ export function estimateMessageTokens(messages: Message[]): number {
     return total;
 }
 
+/**
+ * Estimate the current prompt from the last real count plus the estimated
+ * change since.  The real count also covers what the estimate cannot see
+ * (tool schemas, chat template tokens, the model's own tokenizer).
+ */
+export function calibratedTokens(estimated: number, calibration?: ContextCalibration): number {
+    if (!calibration) return estimated;
+    return Math.max(0, calibration.promptTokens + estimated - calibration.estimatedTokens);
+}
+
+export function emptyUsage(): TokenUsage {
+    return { promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+}
+
+// Accumulate `usage` into `total` in place
+export function addUsage(total: TokenUsage, usage?: TokenUsage): TokenUsage {
+    if (!usage) return total;
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.cachedTokens += usage.cachedTokens;
+    return total;
+}
+
+// 1234 → 1.2k
+export function formatTokens(tokens: number): string {
+    return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1)}k`;
+}
+
 import { config } from './config';
 
 /**
@@ -48,6 +81,10 @@ export function getContextWindow(model: string): number {
     if (providerConfig?.contextWindow && providerConfig.model === model) {
         modelCtx = providerConfig.contextWindow;
     }
+    // Ollama loads the model with exactly this many tokens
+    if (providerConfig?.options?.num_ctx) {
+        modelCtx = providerConfig.options.num_ctx;
+    }
 
     // TPM is the hard ceiling on a single request's total tokens
     if (providerConfig?.tpmLimit && providerConfig.model === model) {
@@ -63,10 +100,11 @@ export interface ContextUsage {
     percentage: number;
 }
 
-export function getContextUsage(messages: Message[], systemPrompt: string | undefined, model: string): ContextUsage {
+export function getContextUsage(messages: Message[], systemPrompt: string | undefined, model: string, calibration?: ContextCalibration): ContextUsage {
     const maxTokens = getContextWindow(model);
-    let usedTokens = estimateMessageTokens(messages);
-    if (systemPrompt) usedTokens += estimateTokens(systemPrompt);
+    let estimated = estimateMessageTokens(messages);
+    if (systemPrompt) estimated += estimateTokens(systemPrompt);
+    const usedTokens = calibratedTokens(estimated, calibration);
     const percentage = Math.min(100, Math.round((usedTokens / maxTokens) * 100));
     return { usedTokens, maxTokens, percentage };
 }
@@ -0,0 +1,170 @@
+
+import { config } from './config';
+import { ModelPrice, TokenUsage } from './types';
+import { addUsage, emptyUsage } from './context';
+import { providerRegistry } from '../providers/registry';
+
+/**
+ * Spend tracking: real token usage multiplied by model prices.
+ *
+ * Prices come from, in order: `pricing` in config.json (keyed by
+ * `provider:model`), prices reported by the provider's model list
+ * (OpenRouter), and the built-in table below.  Local providers are free;
+ * anything else without a price is counted as unpriced.
+ */
+
+// USD per million tokens, matched by longest model id prefix
+const DEFAULT_PRICES: Record<string, Record<string, ModelPrice>> = {
+    groq: {
+        'qwen-2.5-coder-32b': { input: 0.79, output: 0.79 },
+        'qwen/qwen3-32b': { input: 0.29, output: 0.59 },
+        'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+        'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+        'openai/gpt-oss-120b': { input: 0.15, output: 0.75 },
+        'openai/gpt-oss-20b': { input: 0.10, output: 0.50 },
+        'moonshotai/kimi-k2-instruct': { input: 1.00, output: 3.00 },
+        'gemma2-9b-it': { input: 0.20, output: 0.20 },
+    },
+    googleaistudio: {
+        'gemini-2.5-pro': { input: 1.25, output: 10.00, cachedInput: 0.31 },
+        'gemini-2.5-flash-lite': { input: 0.10, output: 0.40, cachedInput: 0.025 },
+        'gemini-2.5-flash': { input: 0.30, output: 2.50, cachedInput: 0.075 },
+        'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+        'gemini-2.0-flash': { input: 0.10, output: 0.40, cachedInput: 0.025 },
+        'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+        'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+        'gemma': { input: 0, output: 0 },
+    },
+    anthropic: {
+        'claude-opus-4': { input: 15.00, output: 75.00, cachedInput: 1.50 },
+        'claude-sonnet-4': { input: 3.00, output: 15.00, cachedInput: 0.30 },
+        'claude-haiku-4': { input: 1.00, output: 5.00, cachedInput: 0.10 },
+        'claude-3-7-sonnet': { input: 3.00, output: 15.00, cachedInput: 0.30 },
+        'claude-3-5-sonnet': { input: 3.00, output: 15.00, cachedInput: 0.30 },
+        'claude-3-5-haiku': { input: 0.80, output: 4.00, cachedInput: 0.08 },
+    },
+};
+
+// Models run on the user's own hardware
+const FREE_PROVIDERS = ['ollama'];
+
+export interface CostEntry {
+    turn: number;
+    provider: string;
+    model: string;
+    usage: TokenUsage;
+    /** null when no price is known for the model */
+    cost: number | null;
+}
+
+/** Cost of one request; cached prompt tokens are billed at the cache price */
+export function costOf(usage: TokenUsage, price: ModelPrice): number {
+    const cached = Math.min(usage.cachedTokens, usage.promptTokens);
+    const uncached = usage.promptTokens - cached;
+    return (uncached * price.input
+        + cached * (price.cachedInput ?? price.input)
+        + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// $0.0042 for small amounts, $1.25 otherwise
+export function formatCost(cost: number): string {
+    return cost < 1 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export class CostLedger {
+    entries: CostEntry[] = [];
+    private turn = 0;
+    // Prices from provider model lists, keyed by `provider:model`
+    private reportedPrices = new Map<string, ModelPrice>();
+    private pricesRequested = new Set<string>();
+
+    /** Number the requests that follow as a new turn */
+    beginTurn(): number {
+        return ++this.turn;
+    }
+
+    record(provider: string, model: string, usage?: TokenUsage): CostEntry | null {
+        if (!usage) return null;
+        const price = this.priceFor(provider, model);
+        const entry: CostEntry = { turn: this.turn, provider, model, usage, cost: price ? costOf(usage, price) : null };
+        this.entries.push(entry);
+        return entry;
+    }
+
+    priceFor(provider: string, model: string): ModelPrice | null {
+        const configured = config.config.pricing?.[`${provider}:${model}`];
+        if (configured) return configured;
+
+        const reported = this.reportedPrices.get(`${provider}:${model}`);
+        if (reported) return reported;
+
+        const table = DEFAULT_PRICES[provider];
+        if (table) {
+            const prefix = Object.keys(table)
+                .filter(id => model.startsWith(id))
+                .sort((a, b) => b.length - a.length)[0];
+            if (prefix) return table[prefix];
+        }
+
+        return FREE_PROVIDERS.includes(provider) ? { input: 0, output: 0 } : null;
+    }
+
+    /** Keep the prices a provider's model list reports (`price` on each model) */
+    rememberPrices(provider: string, models: any[]): void {
+        for (const model of models) {
+            if (model?.id && model.price) this.reportedPrices.set(`${provider}:${model.id}`, model.price);
+        }
+    }
+
+    /**
+     * Fetch the provider's model list once to learn the price of `model`,
+     * when no other source has it.  Failures are ignored.
+     */
+    async loadPrice(provider: string, model: string): Promise<void> {
+        if (this.priceFor(provider, model) || this.pricesRequested.has(provider)) return;
+        this.pricesRequested.add(provider);
+
+        const definition = providerRegistry.get(provider);
+        const conf = config.getProviderConfig(provider);
+        if (!definition || !conf || (definition.needsKey && !conf.apiKey)) return;
+        try {
+            this.rememberPrices(provider, await definition.fetchModels(conf));
+        } catch {
+            // No prices — usage is shown as unpriced
+        }
+    }
+
+    /** Cost of all priced requests so far */
+    get total(): number {
+        return this.entries.reduce((sum, entry) => sum + (entry.cost ?? 0), 0);
+    }
+
+    /** True when some recorded usage had no price */
+    get hasUnpriced(): boolean {
+        return this.entries.some(entry => entry.cost === null);
+    }
+
+    /** Cost of one turn, or undefined when none of its requests had a price */
+    turnCost(turn: number): number | undefined {
+        const priced = this.entries.filter(entry => entry.turn === turn && entry.cost !== null);
+        if (priced.length === 0) return undefined;
+        return priced.reduce((sum, entry) => sum + entry.cost!, 0);
+    }
+
+    /** One line per turn and model, for /cost */
+    breakdown(): CostEntry[] {
+        const rows: CostEntry[] = [];
+        for (const entry of this.entries) {
+            let row = rows.find(r => r.turn === entry.turn && r.provider === entry.provider && r.model === entry.model);
+            if (!row) {
+                row = { turn: entry.turn, provider: entry.provider, model: entry.model, usage: emptyUsage(), cost: 0 };
+                rows.push(row);
+            }
+            addUsage(row.usage, entry.usage);
+            row.cost = row.cost === null || entry.cost === null ? null : row.cost + entry.cost;
+        }
+        return rows;
+    }
+}
+
+export const costLedger = new CostLedger();
@@ -0,0 +1,54 @@
+
+import fs from 'fs-extra';
+import path from 'path';
+import { AgentEvent } from './types';
+
+/**
+ * NDJSON sink for the agent event stream (`--events <file|->`).
+ *
+ * One JSON object per line, appended synchronously so that a crash or
+ * process.exit() never loses the events leading up to it.
+ */
+export class EventLog {
+    private fd: number | null = null;
+    private target: string | null = null;
+
+    /** Start writing to a file (appended) or to stdout when `target` is '-' */
+    open(target: string): void {
+        this.close();
+        this.fd = target === '-' ? 1 : fs.openSync(path.resolve(target), 'a');
+        this.target = target;
+    }
+
+    get enabled(): boolean {
+        return this.fd !== null;
+    }
+
+    /** True when events go to stdout, which must then carry nothing else */
+    get toStdout(): boolean {
+        return this.target === '-';
+    }
+
+    write(event: AgentEvent): void {
+        if (this.fd === null) return;
+        try {
+            fs.writeSync(this.fd, JSON.stringify(event) + '\n');
+        } catch {
+            // Silent fail — the event log must never break a run
+        }
+    }
+
+    close(): void {
+        if (this.fd !== null && this.fd !== 1) {
+            try {
+                fs.closeSync(this.fd);
+            } catch {
+                // Silent fail
+            }
+        }
+        this.fd = null;
+        this.target = null;
+    }
+}
+
+export const eventLog = new EventLog();
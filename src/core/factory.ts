@@ -1,29 +1,18 @@
 
 import { config } from './config';
-import { GroqProvider } from '../providers/groq';
-import { OpenRouterProvider } from '../providers/openrouter';
-import { OllamaProvider } from '../providers/ollama';
-import { GoogleAIStudioProvider } from '../providers/googleaistudio';
+import { providerRegistry } from '../providers/registry';
 import { BaseProvider } from '../providers/base';
 
 export function getProvider(name?: string): BaseProvider {
     const providerName = name || config.config.provider || 'groq';
-    const conf = config.getProviderConfig(providerName);
-    const apiKey = conf?.apiKey;
-    const model = conf?.model;
+    const definition = providerRegistry.get(providerName);
+    if (!definition) throw new Error(`Unknown provider "${providerName}". Please run setup first.`);
 
-    switch (providerName) {
-        case 'openrouter':
-            if (!apiKey) throw new Error('OpenRouter API key not configured. Please run setup first.');
-            return new OpenRouterProvider(apiKey, model);
-        case 'ollama':
-            return new OllamaProvider(apiKey, model);
-        case 'googleaistudio':
-            if (!apiKey) throw new Error('Google AI Studio API key not configured. Please run setup first.');
-            return new GoogleAIStudioProvider(apiKey, model);
-        case 'groq':
-        default:
-            if (!apiKey) throw new Error('API key not configured. Please run setup first.');
-            return new GroqProvider(apiKey, model);
+    const conf = config.getProviderConfig(providerName) || { name: definition.name };
+    if (definition.needsKey && !conf.apiKey) {
+        throw new Error(`${definition.name} API key not configured. Please run setup first.`);
     }
+    const provider = definition.create(conf);
+    provider.providerId = definition.id;
+    return provider;
 }
@@ -0,0 +1,68 @@
+
+import { config } from './config';
+import { ChatResponse } from './types';
+import { providerRegistry } from '../providers/registry';
+import { BaseProvider } from '../providers/base';
+
+/**
+ * Provider fallback chain.  `fallback` in config.json lists `provider:model`
+ * entries (the model is optional) to try, in order, when the active provider
+ * fails with a retryable error:
+ *
+ *   "fallback": ["openrouter:anthropic/claude-3.5-sonnet", "ollama:qwen2.5-coder:32b"]
+ *
+ * Entries whose provider is unknown or not configured are skipped.
+ */
+
+export interface FallbackTarget {
+    provider: string;
+    model?: string;
+}
+
+// Network failures carry no HTTP status; recognise them by message
+const NETWORK_ERROR = /fetch failed|connection error|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up|timed out/i;
+
+/** Rate limits, server errors and unreachable hosts — worth trying elsewhere */
+export function isRetryableError(response: ChatResponse): boolean {
+    if (response.type !== 'error') return false;
+    if (response.status !== undefined) return response.status === 429 || response.status >= 500;
+    return NETWORK_ERROR.test(response.content || '');
+}
+
+/** `openrouter:anthropic/claude-3.5-sonnet` → provider + model; the model may itself contain colons */
+export function parseFallbackEntry(entry: string): FallbackTarget {
+    const colon = entry.indexOf(':');
+    if (colon < 0) return { provider: entry.trim() };
+    const model = entry.substring(colon + 1).trim();
+    return { provider: entry.substring(0, colon).trim(), model: model || undefined };
+}
+
+/** The configured chain, limited to providers that can actually be built */
+export function fallbackChain(): FallbackTarget[] {
+    return (config.config.fallback || []).map(parseFallbackEntry).filter(target => {
+        const definition = providerRegistry.get(target.provider);
+        const conf = config.getProviderConfig(target.provider);
+        if (!definition) return false;
+        if (definition.needsKey && !conf?.apiKey) return false;
+        if (definition.needsUrl && !conf?.baseUrl) return false;
+        return !!(target.model || conf?.model || definition.defaultModel);
+    });
+}
+
+/** Build a fallback provider that continues `from`'s conversation */
+export function createFallbackProvider(target: FallbackTarget, from: BaseProvider): BaseProvider {
+    const definition = providerRegistry.get(target.provider)!;
+    const conf = config.getProviderConfig(target.provider) || { name: definition.name };
+    const model = target.model || conf.model || definition.defaultModel;
+    // The saved context window belongs to the saved model
+    const provider = definition.create({ ...conf, model, contextWindow: model === conf.model ? conf.contextWindow : undefined });
+    provider.providerId = definition.id;
+    provider.setHistory(from.conversationHistory);
+    if (from.systemPrompt) provider.setSystemPrompt(from.systemPrompt);
+    return provider;
+}
+
+/** `OpenRouter (anthropic/claude-3.5-sonnet)` */
+export function describeProvider(provider: BaseProvider): string {
+    return provider.model ? `${provider.name} (${provider.model})` : provider.name;
+}
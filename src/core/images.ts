@@ -0,0 +1,105 @@
+
+import fs from 'fs-extra';
+import path from 'path';
+import { ImagePart, Message } from './types';
+
+/**
+ * Images in the conversation: attached by the user (`@shot.png`, /image)
+ * or returned by read_file.  They travel as `images` on a user or tool
+ * message, base64-encoded; each provider maps them to its own format.
+ */
+
+// The formats every vision API accepts
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+// Anthropic's per-image limit, the lowest of the providers
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// `@path/to/shot.png` at the start of the prompt or after whitespace
+const IMAGE_MENTION = /(^|\s)@("[^"]+\.(?:png|jpe?g|gif|webp)"|\S+\.(?:png|jpe?g|gif|webp))(?=\s|$)/gi;
+
+export function isImagePath(filePath: string): boolean {
+    return IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/** Media type from the file's magic bytes, for files whose extension cannot be trusted */
+export function sniffImageType(buf: Buffer): string | null {
+    const hex = buf.subarray(0, 4).toString('hex');
+    if (hex === '89504e47') return 'image/png';
+    if (hex.startsWith('ffd8ff')) return 'image/jpeg';
+    if (hex === '47494638') return 'image/gif';
+    if (hex === '52494646' && buf.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+    return null;
+}
+
+/** Read an image file; throws with a message fit for the user when it cannot be sent */
+export async function loadImage(filePath: string): Promise<ImagePart> {
+    if (!await fs.pathExists(filePath)) throw new Error(`Image not found: ${filePath}`);
+    const buf = await fs.readFile(filePath);
+    const mediaType = sniffImageType(buf);
+    if (!mediaType) throw new Error(`Not a PNG, JPEG, GIF or WebP image: ${filePath}`);
+    if (buf.length > MAX_IMAGE_BYTES) {
+        throw new Error(`Image too large: ${filePath} is ${(buf.length / 1024 / 1024).toFixed(1)} MB (max ${MAX_IMAGE_BYTES / 1024 / 1024} MB)`);
+    }
+    return { type: 'image', mediaType, data: buf.toString('base64'), source: filePath };
+}
+
+/**
+ * Load the images a prompt mentions as `@path`.  The mentions stay in the
+ * text so the model knows which file is which.
+ */
+export async function loadImageMentions(prompt: string, cwd: string): Promise<{ images: ImagePart[]; errors: string[] }> {
+    const images: ImagePart[] = [];
+    const errors: string[] = [];
+    for (const match of prompt.matchAll(IMAGE_MENTION)) {
+        const mentioned = match[2].replace(/^"|"$/g, '');
+        try {
+            images.push(await loadImage(path.resolve(cwd, mentioned)));
+        } catch (error: any) {
+            errors.push(error?.message || String(error));
+        }
+    }
+    return { images, errors };
+}
+
+/** `data:` URL for OpenAI-style `image_url` parts */
+export function toDataUrl(image: ImagePart): string {
+    return `data:${image.mediaType};base64,${image.data}`;
+}
+
+/** OpenAI-style message content: the text alone, or text and `image_url` parts */
+export function toOpenAIContent(msg: Message): any {
+    if (!msg.images?.length) return msg.content;
+    return [
+        ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+        ...msg.images.map(image => ({ type: 'image_url', image_url: { url: toDataUrl(image) } })),
+    ];
+}
+
+/**
+ * For APIs whose tool results are text only: move images returned by tools
+ * into a user message after that round's tool results.
+ */
+export function moveToolImagesToUser(messages: Message[]): Message[] {
+    const result: Message[] = [];
+    let pending: ImagePart[] = [];
+    const flush = () => {
+        if (pending.length === 0) return;
+        const sources = pending.map(image => image.source).filter(Boolean).join(', ');
+        result.push({ role: 'user', content: `Images returned by the tools${sources ? `: ${sources}` : ''}`, images: pending });
+        pending = [];
+    };
+
+    for (const msg of messages) {
+        if (msg.role === 'tool') {
+            const { images, ...rest } = msg;
+            if (images?.length) pending.push(...images);
+            result.push(rest);
+            continue;
+        }
+        flush();
+        result.push(msg);
+    }
+    flush();
+    return result;
+}
@@ -0,0 +1,143 @@
+
+import { config } from './config';
+import { ModelCapabilities, ModelInfo } from './types';
+import { costLedger } from './cost';
+import { BaseProvider } from '../providers/base';
+
+/**
+ * Model capabilities: what each provider's model list reports, with gaps
+ * filled from the table below and `modelCapabilities` in config.json
+ * (keyed by `provider:model`) overriding both.
+ */
+
+// Matched against the model id; for each field the first matching entry wins
+const KNOWN_MODELS: { pattern: RegExp; capabilities: ModelCapabilities }[] = [
+    { pattern: /embed|nomic-bert|all-minilm|\bbge-|mxbai|snowflake-arctic-embed/i, capabilities: { kind: 'embedding', tools: false } },
+    { pattern: /whisper|\btts\b|-tts|playai|orpheus/i, capabilities: { kind: 'audio', tools: false } },
+    { pattern: /guard|shieldgemma|moderation|prompt-injection/i, capabilities: { kind: 'guard', tools: false } },
+    { pattern: /^gemini/i, capabilities: { tools: true, vision: true } },
+    { pattern: /^gemini-(2\.5|3)/i, capabilities: { reasoning: true } },
+    { pattern: /claude/i, capabilities: { tools: true, vision: true } },
+    // Gemma 3 has no function calling, on AI Studio or Ollama
+    { pattern: /gemma-?3/i, capabilities: { tools: false, vision: true } },
+    { pattern: /llava|bakllava|moondream|minicpm-v|pixtral|vision|-vl\b|qwen2\.5vl|llama-4|llama4|gpt-4o|gpt-4\.1|gpt-5|grok-4|mistral-(small|medium)-3/i, capabilities: { vision: true } },
+    { pattern: /deepseek-r1|qwq|qwen3|gpt-oss|magistral|thinking|\bo[134](-mini)?\b/i, capabilities: { reasoning: true } },
+    { pattern: /qwen2\.5|qwen-2\.5|qwen3|llama-?3\.[123]|llama3\.[123]|llama-4|llama4|mistral|mixtral|command-r|hermes|firefunction|granite3|kimi|gpt-oss|deepseek-v3/i, capabilities: { tools: true } },
+];
+
+const CAPABILITY_FIELDS: (keyof ModelCapabilities)[] = ['kind', 'tools', 'vision', 'reasoning', 'maxOutput'];
+
+// What model lists fetched this session reported, keyed by `provider:model`
+const reportedCapabilities = new Map<string, ModelCapabilities>();
+
+function defined<T extends object>(value: T | undefined): Partial<T> {
+    return Object.fromEntries(Object.entries(value || {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// Copy `field` from `source` unless `target` already has it
+function fillField<K extends keyof ModelCapabilities>(target: ModelCapabilities, source: ModelCapabilities, field: K): void {
+    if (target[field] === undefined && source[field] !== undefined) target[field] = source[field];
+}
+
+function knownCapabilities(id: string): ModelCapabilities {
+    const result: ModelCapabilities = {};
+    for (const { pattern, capabilities } of KNOWN_MODELS) {
+        if (!pattern.test(id)) continue;
+        for (const field of CAPABILITY_FIELDS) fillField(result, capabilities, field);
+    }
+    return result;
+}
+
+/** Resolve one fetchModels entry: table, then what the API reported, then config */
+export function describeModel(provider: string, model: any): ModelInfo {
+    const override = config.config.modelCapabilities?.[`${provider}:${model.id}`] || {};
+    const { contextWindow, ...capabilityOverride } = override;
+    return {
+        id: model.id,
+        name: model.name,
+        contextWindow: contextWindow || model.contextWindow || 8192,
+        price: model.price,
+        installed: model.installed,
+        size: model.size,
+        quantization: model.quantization,
+        capabilities: {
+            kind: 'chat',
+            ...knownCapabilities(model.id),
+            ...defined<ModelCapabilities>(model.capabilities),
+            ...defined<ModelCapabilities>(capabilityOverride),
+        },
+    };
+}
+
+export function describeModels(provider: string, models: any[]): ModelInfo[] {
+    for (const model of models) {
+        if (model?.id && model.capabilities) reportedCapabilities.set(`${provider}:${model.id}`, model.capabilities);
+    }
+    return models.map(m => describeModel(provider, m));
+}
+
+export function isChatModel(model: ModelInfo): boolean {
+    return model.capabilities.kind === 'chat';
+}
+
+// Capabilities of the provider's current model
+function currentCapabilities(provider: BaseProvider): ModelCapabilities {
+    const providerId = provider.providerId || provider.name;
+    const model = provider.model || '';
+    return describeModel(providerId, { id: model, capabilities: reportedCapabilities.get(`${providerId}:${model}`) }).capabilities;
+}
+
+/** Only models known to accept images get them; config can vouch for others */
+export function supportsVision(provider: BaseProvider): boolean {
+    return currentCapabilities(provider).vision === true;
+}
+
+/** Models known to think before answering */
+export function supportsReasoning(provider: BaseProvider): boolean {
+    return currentCapabilities(provider).reasoning === true;
+}
+
+/** The error shown when images are sent to a model that cannot see them */
+export function visionError(provider: BaseProvider): string {
+    const key = `${provider.providerId || provider.name}:${provider.model || ''}`;
+    return `${provider.model || provider.name} does not accept images. Switch to a vision model with /model, `
+        + `or if this model does support images, set "modelCapabilities": { "${key}": { "vision": true } } in config.json.`;
+}
+
+/** Short labels for the model pickers, e.g. `tools`, `vision`, `128k ctx`, `$3/$15` */
+export function capabilityBadges(provider: string, model: ModelInfo): { label: string; color: string }[] {
+    const { tools, vision, reasoning, maxOutput } = model.capabilities;
+    const badges: { label: string; color: string }[] = [];
+    if (tools === true) badges.push({ label: 'tools', color: '#00D26A' });
+    if (tools === false) badges.push({ label: 'no tools', color: '#FFA500' });
+    if (vision) badges.push({ label: 'vision', color: '#87CEEB' });
+    if (reasoning) badges.push({ label: 'reasoning', color: '#C792EA' });
+    if (model.contextWindow) badges.push({ label: `${formatLimit(model.contextWindow)} ctx`, color: '#666' });
+    if (maxOutput) badges.push({ label: `${formatLimit(maxOutput)} out`, color: '#666' });
+
+    // Input / output USD per million tokens
+    const price = model.price ?? costLedger.priceFor(provider, model.id);
+    if (price) {
+        const label = price.input === 0 && price.output === 0 ? 'free' : `$${+price.input.toFixed(2)}/$${+price.output.toFixed(2)}`;
+        badges.push({ label, color: '#888' });
+    }
+
+    if (model.quantization) badges.push({ label: model.quantization, color: '#666' });
+    if (model.size) badges.push({ label: formatSize(model.size), color: '#666' });
+    if (model.installed === false) badges.push({ label: 'not installed', color: '#FFA500' });
+    return badges;
+}
+
+// 4683075271 → 4.7 GB, 274302450 → 274 MB
+export function formatSize(bytes: number): string {
+    if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+    if (bytes >= 1e6) return `${Math.round(bytes / 1e6)} MB`;
+    return `${Math.round(bytes / 1e3)} KB`;
+}
+
+// 131072 → 128k, 200000 → 200k, 1048576 → 1M
+function formatLimit(tokens: number): string {
+    const unit = tokens % 1024 === 0 ? 1024 : 1000;
+    if (tokens >= unit * unit) return `${+(tokens / (unit * unit)).toFixed(1)}M`;
+    return `${Math.round(tokens / unit)}k`;
+}
@@ -0,0 +1,186 @@
+
+import path from 'path';
+import { config } from './config';
+import { PermissionRule } from './types';
+import { createGlobMatcher } from '../tools/walk';
+
+/**
+ * Pattern-based permission rules.
+ *
+ * Rules come from the global and project config (see ConfigManager.getPermissionRules)
+ * and are checked before the user is prompted.  Deny always wins over allow.
+ *
+ *   run_command            → wildcard against the command   ("npm test*");
+ *                            after a `/`, `*` covers one path inside that directory
+ *   write_file, edit_file  → glob against the project path  ("src/**")
+ *   stop_process, ...      → wildcard against the process ID ("bg_*")
+ */
+
+export type PermissionVerdict = 'allow' | 'deny' | 'ask';
+
+/** Tools that need approval unless a rule or session grant covers them */
+export const DANGEROUS_TOOLS = ['run_command', 'write_file', 'edit_file', 'stop_process'];
+
+const PATH_TOOLS = ['write_file', 'edit_file', 'read_file'];
+const PROCESS_TOOLS = ['stop_process', 'send_input', 'get_logs'];
+
+// Shell metacharacters that chain, pipe, redirect, background or substitute:
+// a command containing any of them only matches an allow rule written out exactly
+const SHELL_METACHARACTERS = /[&|;<>()`$\n\r]/;
+const SHELL_SPLIT = /[&|;<>()`$\n\r]+/;
+
+// A second word that reads as a subcommand (`npm test`, `git status`) rather than an argument
+const SUBCOMMAND = /^[a-z][\w:-]*$/i;
+
+// Prefixes that run the next word as the command (`sudo rm ...`, `env X=1 rm ...`),
+// with their options that take a value (`sudo -u root`, `nice -n 5`)
+const COMMAND_WRAPPERS = new Map<string, string[]>([
+    ['sudo', ['-u', '-g', '-h', '-p', '-r', '-t', '-C', '-D', '-U']],
+    ['doas', ['-u', '-C']],
+    ['env', ['-u', '-C', '-S']],
+    ['command', []],
+    ['exec', ['-a']],
+    ['nohup', []],
+    ['nice', ['-n']],
+    ['time', ['-f', '-o']],
+]);
+
+// `*` after a `/` in a run_command allow rule stands for the rest of one path:
+// no whitespace (a second argument) and no `..` segment (a way out of the directory)
+const PATH_TAIL = '(?!(?:[^\\s/]*/)*\\.\\.(?:/|\\s|$))\\S*';
+
+function wildcardToRegExp(pattern: string, pathTails = false): RegExp {
+    const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .reduce((regex, part, i, parts) => {
+            if (i === 0) return part;
+            return regex + (pathTails && parts[i - 1].endsWith('/') ? PATH_TAIL : '.*') + part;
+        }, '');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Canonical form of a command for deny rules: single spaces, the binary
+ * without its directory, and the letters of each short-flag cluster sorted
+ * (`-rf` and `-fr` both become `-fr`).  With `unwrap`, leading wrappers such
+ * as `sudo` and `env X=1` are dropped too.
+ */
+function normalizeCommand(command: string, unwrap: boolean): string {
+    let words = command.trim().split(/\s+/).filter(Boolean);
+    while (unwrap && words.length > 1) {
+        if (/^[A-Za-z_]\w*=/.test(words[0])) {
+            words = words.slice(1);
+            continue;
+        }
+        const optionValues = COMMAND_WRAPPERS.get(path.posix.basename(words[0]));
+        if (!optionValues) break;
+        let next = 1;
+        while (next < words.length && (words[next].startsWith('-') || /^[A-Za-z_]\w*=/.test(words[next]))) {
+            next += optionValues.includes(words[next]) ? 2 : 1;
+        }
+        words = words.slice(next);
+    }
+    return words
+        .map((word, i) => {
+            if (i === 0) return path.posix.basename(word);
+            return /^-[A-Za-z]+$/.test(word) ? '-' + word.substring(1).split('').sort().join('') : word;
+        })
+        .join(' ');
+}
+
+/**
+ * The string a rule's pattern is matched against, or null if the call has none.
+ * File paths are made relative to the project directory so rules are portable.
+ */
+function permissionSubject(toolName: string, args: Record<string, any>, toolCwd: string): string | null {
+    if (toolName === 'run_command') {
+        return typeof args.command === 'string' ? args.command.trim() : null;
+    }
+    if (PATH_TOOLS.includes(toolName)) {
+        if (typeof args.path !== 'string') return null;
+        const resolved = path.resolve(toolCwd, args.path);
+        const rel = path.relative(process.cwd(), resolved);
+        const subject = rel && !rel.startsWith('..') && !path.isAbsolute(rel) ? rel : resolved;
+        return subject.split(path.sep).join('/');
+    }
+    if (PROCESS_TOOLS.includes(toolName)) {
+        return typeof args.process_id === 'string' ? args.process_id : null;
+    }
+    return null;
+}
+
+function matchesRule(rule: PermissionRule, toolName: string, subject: string | null, kind: 'allow' | 'deny'): boolean {
+    if (rule.tool !== toolName && rule.tool !== '*') return false;
+    if (!rule.pattern || rule.pattern === '*') return true;
+    if (subject === null) return false;
+
+    if (PATH_TOOLS.includes(toolName)) {
+        return createGlobMatcher([rule.pattern])(subject);
+    }
+
+    if (toolName !== 'run_command') return wildcardToRegExp(rule.pattern).test(subject);
+
+    if (kind === 'deny') {
+        // A deny rule catches the pattern anywhere in a chained command, however
+        // it is spelled: `sudo rm -fr /` and `/bin/rm  -rf /` both hit `rm -rf *`
+        const regex = wildcardToRegExp(normalizeCommand(rule.pattern, false));
+        const parts = [subject, ...subject.split(SHELL_SPLIT)];
+        return parts.some(part => regex.test(normalizeCommand(part, false)) || regex.test(normalizeCommand(part, true)));
+    }
+    // An allow rule must not be stretched to cover extra chained commands
+    if (SHELL_METACHARACTERS.test(subject)) return rule.pattern === subject;
+    return wildcardToRegExp(rule.pattern, true).test(subject);
+}
+
+export function formatRule(rule: PermissionRule): string {
+    return rule.pattern ? `${rule.tool}(${rule.pattern})` : rule.tool;
+}
+
+/** Check configured rules for a tool call. 'ask' means no rule applied. */
+export function evaluatePermission(
+    toolName: string,
+    args: Record<string, any>,
+    toolCwd: string = process.cwd()
+): { verdict: PermissionVerdict; rule?: PermissionRule } {
+    const rules = config.getPermissionRules();
+    const subject = permissionSubject(toolName, args, toolCwd);
+
+    const denied = rules.deny.find(r => matchesRule(r, toolName, subject, 'deny'));
+    if (denied) return { verdict: 'deny', rule: denied };
+
+    const allowed = rules.allow.find(r => matchesRule(r, toolName, subject, 'allow'));
+    if (allowed) return { verdict: 'allow', rule: allowed };
+
+    return { verdict: 'ask' };
+}
+
+/**
+ * Suggest a reusable pattern for "always allow", e.g.
+ * `npm test -- --watch` → `npm test*`, `rm -rf build/cache` → `rm -rf build/*`,
+ * `src/core/config.ts` → `src/core/**`.  Never a bare `<binary>*`.
+ */
+export function suggestPattern(toolName: string, args: Record<string, any>, toolCwd: string = process.cwd()): string | undefined {
+    const subject = permissionSubject(toolName, args, toolCwd);
+    if (!subject) return undefined;
+
+    if (toolName === 'run_command') {
+        if (SHELL_METACHARACTERS.test(subject) || /["'\\*]/.test(subject)) return subject;
+        const words = subject.split(/\s+/);
+        if (words.length > 2 && SUBCOMMAND.test(words[1])) return `${words[0]} ${words[1]}*`;
+
+        // Otherwise only a trailing path argument is widened, to its directory
+        const last = words[words.length - 1];
+        const dir = path.posix.dirname(last);
+        if (words.length > 1 && !last.startsWith('-') && dir !== '.' && !path.posix.isAbsolute(last) && !last.split('/').includes('..')) {
+            return `${words.slice(0, -1).join(' ')} ${dir}/*`;
+        }
+        return subject;
+    }
+    if (PATH_TOOLS.includes(toolName)) {
+        const dir = path.posix.dirname(subject);
+        // Files in the project root get an exact rule rather than allow-everything
+        return dir === '.' ? subject : `${dir}/**`;
+    }
+    return subject;
+}
@@ -0,0 +1,95 @@
+
+import { config } from './config';
+import { ReasoningEffort, StreamEvent } from './types';
+import { BaseProvider } from '../providers/base';
+
+/**
+ * Reasoning ("thinking") from reasoning models.  Some APIs return it in a
+ * field of its own (OpenRouter and Groq `reasoning`, Ollama `thinking`,
+ * Gemini thought parts); models such as DeepSeek R1 and Qwen3 write it
+ * inline as a `<think>` block, which is split out here.  It is kept on the
+ * assistant message for display and left out of every request.
+ *
+ * `reasoningEffort` in config.json sets the effort per `provider:model`;
+ * each provider maps it to its own request parameter.
+ */
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export function reasoningEffort(provider: BaseProvider): ReasoningEffort | undefined {
+    return config.config.reasoningEffort?.[`${provider.providerId || provider.name}:${provider.model || ''}`];
+}
+
+// Length of the longest end of `text` that could be the start of `tag`
+function partialTag(text: string, tag: string): number {
+    for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+        if (tag.startsWith(text.substring(text.length - length))) return length;
+    }
+    return 0;
+}
+
+/**
+ * Separates reasoning from the answer as a response streams in.  Text
+ * inside `<think>` tags becomes reasoning, even when a tag is split across
+ * chunks; reasoning the API reports separately goes through pushReasoning.
+ */
+export class ReasoningSplitter {
+    content = '';
+    reasoning = '';
+    private buffer = '';
+    private thinking = false;
+    // Drop the blank lines between a think block and the answer
+    private trimNext = false;
+
+    pushText(delta: string): StreamEvent[] {
+        const events: StreamEvent[] = [];
+        this.buffer += delta;
+        while (this.buffer) {
+            const tag = this.thinking ? CLOSE_TAG : OPEN_TAG;
+            const at = this.buffer.indexOf(tag);
+            if (at < 0) {
+                const keep = partialTag(this.buffer, tag);
+                events.push(...this.emit(this.buffer.substring(0, this.buffer.length - keep)));
+                this.buffer = this.buffer.substring(this.buffer.length - keep);
+                break;
+            }
+            events.push(...this.emit(this.buffer.substring(0, at)));
+            this.buffer = this.buffer.substring(at + tag.length);
+            this.thinking = !this.thinking;
+            this.trimNext = true;
+        }
+        return events;
+    }
+
+    pushReasoning(delta: string): StreamEvent[] {
+        this.trimNext = true;
+        this.reasoning += delta;
+        return delta ? [{ type: 'reasoning', delta }] : [];
+    }
+
+    /** Flush a held-back partial tag at the end of the stream */
+    end(): StreamEvent[] {
+        const rest = this.buffer;
+        this.buffer = '';
+        return this.emit(rest);
+    }
+
+    private emit(text: string): StreamEvent[] {
+        if (this.thinking) return this.pushReasoning(text);
+        if (this.trimNext) text = text.replace(/^\s+/, '');
+        if (!text) return [];
+        this.trimNext = false;
+        this.content += text;
+        return [{ type: 'text', delta: text }];
+    }
+}
+
+/** Split a complete answer into content and reasoning (`reasoning` is what the API returned separately) */
+export function splitReasoning(content: string, reasoning?: string): { content: string; reasoning?: string } {
+    const splitter = new ReasoningSplitter();
+    if (reasoning) splitter.pushReasoning(reasoning);
+    splitter.pushText(content);
+    splitter.end();
+    return { content: splitter.content, reasoning: splitter.reasoning || undefined };
+}
@@ -0,0 +1,173 @@
+
+import { config } from './config';
+import { ChatResponse, Message, ToolCall, ToolDefinition } from './types';
+import { BaseProvider } from '../providers/base';
+
+/**
+ * Tool calling for models without native function calling.
+ *
+ * The tools are described in the system prompt and the model writes calls
+ * as `<tool_call>` blocks (fenced JSON blocks are accepted too) which are
+ * parsed back into ToolCalls.  History keeps native tool calls and results;
+ * they are rewritten as text for each request, results going back as user
+ * messages.
+ *
+ * `toolProtocol` in config.json selects the protocol per `provider:model`;
+ * a model whose tools request is rejected is switched to `text` automatically
+ * unless it is pinned to `native`.
+ */
+
+export type ToolProtocol = 'native' | 'text';
+
+// How providers word a rejected `tools` parameter (Ollama, OpenRouter, OpenAI-compatible servers)
+const TOOLS_UNSUPPORTED = /does not support tools|doesn't support tools|no endpoints found that support tool use|tools? (?:is|are) not supported|does not support (?:function|tool) call|tool(?:_choice| use| calling) is not supported/i;
+
+const TOOL_CALL_BLOCK = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/g;
+const FENCED_BLOCK = /```(?:json|tool_call|tool)?[ \t]*\n([\s\S]*?)```/g;
+
+function protocolKey(provider: BaseProvider): string {
+    return `${provider.providerId || provider.name}:${provider.model || ''}`;
+}
+
+export function toolProtocol(provider: BaseProvider): ToolProtocol | undefined {
+    return config.config.toolProtocol?.[protocolKey(provider)];
+}
+
+export function usesTextTools(provider: BaseProvider): boolean {
+    return toolProtocol(provider) === 'text';
+}
+
+/** Switch the provider's model to the text protocol and remember it */
+export function enableTextTools(provider: BaseProvider): void {
+    config.setToolProtocol(protocolKey(provider), 'text');
+}
+
+/** Use text tool calls for a model known to lack native support, unless config already decides */
+export function preferTextTools(providerId: string, model: string): void {
+    if (!config.config.toolProtocol?.[`${providerId}:${model}`]) config.setToolProtocol(`${providerId}:${model}`, 'text');
+}
+
+export function isToolsUnsupportedError(message: string): boolean {
+    return TOOLS_UNSUPPORTED.test(message);
+}
+
+/** System prompt section describing the tools and the call format */
+export function textToolsPrompt(tools: ToolDefinition[]): string {
+    const descriptions = tools.map(t =>
+        `- ${t.name}: ${t.description}\n  Parameters: ${JSON.stringify(t.parameters?.properties || {})}`
+        + (t.parameters?.required?.length ? `\n  Required: ${t.parameters.required.join(', ')}` : '')
+    ).join('\n');
+
+    return `
+
+# Tools
+Call a tool by writing a block like this in your reply:
+
+<tool_call>
+{"name": "read_file", "arguments": {"path": "src/index.ts"}}
+</tool_call>
+
+Write one block per call; a reply may contain several. The block must be valid JSON with an exact tool name and its parameters. After your tool calls, stop and wait: the results arrive in the next user message inside <tool_result> tags. When no tool is needed, answer without a block.
+
+Available tools:
+${descriptions}`;
+}
+
+/** Rewrite native tool calls and results as text for a request */
+export function toTextMessages(messages: Message[]): Message[] {
+    const result: Message[] = [];
+    const toolNames = new Map<string, string>();
+
+    for (const msg of messages) {
+        if (msg.role === 'assistant' && msg.tool_calls?.length) {
+            const blocks = msg.tool_calls.map(tc => {
+                toolNames.set(tc.id, tc.name);
+                return `<tool_call>\n${JSON.stringify({ name: tc.name, arguments: tc.arguments })}\n</tool_call>`;
+            });
+            result.push({ role: 'assistant', content: [msg.content, ...blocks].filter(Boolean).join('\n\n') });
+        } else if (msg.role === 'tool') {
+            const name = msg.tool_name || toolNames.get(msg.tool_call_id || '') || 'tool';
+            const block = `<tool_result name="${name}">\n${msg.content}\n</tool_result>`;
+            // Results of one round go back together, as a single user message
+            const last = result[result.length - 1];
+            if (last?.role === 'user' && last.content.startsWith('<tool_result')) {
+                last.content += `\n\n${block}`;
+                if (msg.images?.length) last.images = [...(last.images || []), ...msg.images];
+            } else {
+                result.push({ role: 'user', content: block, ...(msg.images?.length ? { images: msg.images } : {}) });
+            }
+        } else {
+            result.push({ role: msg.role, content: msg.content, ...(msg.images?.length ? { images: msg.images } : {}) });
+        }
+    }
+
+    return result;
+}
+
+// `{ name, arguments }`, also `parameters` / `tool` / OpenAI's `function` wrapper
+function toToolCall(value: any, toolNames: string[], index: number): ToolCall | null {
+    const call = value?.function && typeof value.function === 'object' ? value.function : value;
+    const name = call?.name || call?.tool;
+    if (typeof name !== 'string' || !toolNames.includes(name)) return null;
+
+    let args = call.arguments ?? call.parameters ?? call.args ?? {};
+    if (typeof args === 'string') {
+        try {
+            args = JSON.parse(args);
+        } catch {
+            return null;
+        }
+    }
+    if (typeof args !== 'object' || Array.isArray(args)) return null;
+
+    return { id: `text_tc_${Date.now()}_${index}`, name, arguments: args };
+}
+
+function parseBlock(body: string, toolNames: string[], index: number): ToolCall[] | null {
+    const json = body.trim().replace(/^```(?:json)?\s*/, '').replace(/```$/, '').trim();
+    let value: any;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    const calls = (Array.isArray(value) ? value : [value]).map((v, i) => toToolCall(v, toolNames, index + i));
+    return calls.every(Boolean) ? calls as ToolCall[] : null;
+}
+
+/**
+ * Pull tool calls out of assistant text.  Returns the text without the
+ * blocks that were parsed; blocks that fail to parse stay in the text.
+ */
+export function parseTextToolCalls(text: string, tools: ToolDefinition[]): { content: string; tool_calls: ToolCall[] } {
+    const toolNames = tools.map(t => t.name);
+    const toolCalls: ToolCall[] = [];
+
+    const extract = (block: string, body: string) => {
+        const calls = parseBlock(body, toolNames, toolCalls.length);
+        if (!calls) return block;
+        toolCalls.push(...calls);
+        return '';
+    };
+
+    let content = text.replace(TOOL_CALL_BLOCK, extract);
+    // Fenced JSON only counts when nothing used the tag format
+    if (toolCalls.length === 0) content = content.replace(FENCED_BLOCK, extract);
+
+    return { content: content.replace(/\n{3,}/g, '\n\n').trim(), tool_calls: toolCalls };
+}
+
+/** Turn a text answer that contains tool call blocks into a tool_use response */
+export function parseTextToolResponse(response: ChatResponse, tools: ToolDefinition[]): ChatResponse {
+    if (response.type !== 'text' || !response.content) return response;
+    const { content, tool_calls } = parseTextToolCalls(response.content, tools);
+    return tool_calls.length > 0 ? { ...response, type: 'tool_use', content, tool_calls } : response;
+}
+
+/** Streaming preview: hide complete and partial call blocks, report the calls seen so far */
+export function previewTextTools(text: string, tools: ToolDefinition[]): { content: string; toolNames: string[] } {
+    const open = text.lastIndexOf('<tool_call>');
+    const complete = open >= 0 && text.indexOf('</tool_call>', open) < 0 ? text.substring(0, open) : text;
+    const { content, tool_calls } = parseTextToolCalls(complete, tools);
+    return { content, toolNames: tool_calls.map(tc => tc.name) };
+}
@@ -5,6 +5,20 @@ export interface Message {
     tool_calls?: ToolCall[];
     tool_call_id?: string;
     tool_name?: string;
+    /** Image parts sent along with the text (user and tool messages) */
+    images?: ImagePart[];
+    /** The model's reasoning before an assistant message; shown, never sent back */
+    reasoning?: string;
+}
+
+/** An image in a message, base64-encoded */
+export interface ImagePart {
+    type: 'image';
+    /** image/png, image/jpeg, image/gif or image/webp */
+    mediaType: string;
+    data: string;
+    /** File the image was read from, for display */
+    source?: string;
 }
 
 export interface ToolCall {
@@ -26,17 +40,178 @@ export interface ProviderConfig {
     contextWindow?: number;
     tpmLimit?: number;
     enabled?: boolean;
+    /** API root for the openai-compatible provider, e.g. http://localhost:8000/v1 */
+    baseUrl?: string;
+    /** Extra HTTP headers sent with every request (openai-compatible) */
+    headers?: Record<string, string>;
+    /** Runtime options sent with every request (ollama) */
+    options?: OllamaOptions;
+}
+
+/**
+ * Ollama generation options, passed through as the request's `options`
+ * (see Ollama's Modelfile parameters); `keep_alive` goes at the top level.
+ */
+export interface OllamaOptions {
+    /** Context length to load the model with; defaults to the configured contextWindow */
+    num_ctx?: number;
+    temperature?: number;
+    top_p?: number;
+    /** Maximum tokens to generate */
+    num_predict?: number;
+    /** How long the model stays loaded after a request, e.g. "30m", or -1 for always */
+    keep_alive?: string | number;
+    [option: string]: any;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    /** Prompt tokens read from the provider's cache; defaults to the input price */
+    cachedInput?: number;
+}
+
+/**
+ * What a model can do.  Fields the provider's model list does not report
+ * stay undefined unless the built-in table or config fills them in.
+ */
+export interface ModelCapabilities {
+    /** Anything but `chat` cannot hold a conversation (embeddings, speech, safety classifiers) */
+    kind?: 'chat' | 'embedding' | 'audio' | 'guard';
+    tools?: boolean;
+    vision?: boolean;
+    reasoning?: boolean;
+    maxOutput?: number;
+}
+
+/** A fetchModels entry with its capabilities resolved */
+export interface ModelInfo {
+    id: string;
+    name?: string;
+    contextWindow: number;
+    /** USD per million tokens, when the model list reports it */
+    price?: ModelPrice;
+    capabilities: ModelCapabilities;
+    /** Local models: whether the model is downloaded, undefined when unknown */
+    installed?: boolean;
+    /** Local models: bytes on disk */
+    size?: number;
+    /** Local models: quantisation level, e.g. Q4_K_M */
+    quantization?: string;
+}
+
+/** One line of a model download's progress */
+export interface PullProgress {
+    status: string;
+    /** Bytes of the current layer */
+    completed?: number;
+    total?: number;
+}
+
+export interface PermissionRule {
+    tool: string;
+    /**
+     * Wildcard for run_command (`npm test*`), glob for file paths (`src/**`),
+     * process ID for process tools. Omitted or `*` matches every call.
+     */
+    pattern?: string;
+}
+
+export interface PermissionRules {
+    allow?: PermissionRule[];
+    deny?: PermissionRule[];
 }
 
 export interface ConfigType {
     provider: string;
     providers: Record<string, ProviderConfig>;
+    /** Local modules that register extra providers (paths relative to the config directory) */
+    providerModules?: string[];
+    /** `provider:model` entries tried in order when the active provider hits a retryable error */
+    fallback?: string[];
+    /** Prices keyed by `provider:model`, overriding the built-in table */
+    pricing?: Record<string, ModelPrice>;
+    /** Session spend limit in USD; the agent asks before going over it */
+    budget?: number;
+    /** Capability overrides keyed by `provider:model` */
+    modelCapabilities?: Record<string, ModelCapabilities & { contextWindow?: number }>;
+    /** Tool calling per `provider:model`: native `tools` parameter, or described in the prompt as text */
+    toolProtocol?: Record<string, 'native' | 'text'>;
+    /** Read-only tool calls from one response run this many at a time (default 4; 1 runs them in turn) */
+    toolConcurrency?: number;
+    /** How much reasoning models think, keyed by `provider:model` */
+    reasoningEffort?: Record<string, ReasoningEffort>;
     theme: string;
     maxTokens: number;
+    permissions?: PermissionRules;
+}
+
+/** `off` disables thinking where the model allows it */
+export type ReasoningEffort = 'off' | 'low' | 'medium' | 'high';
+
+/** Token counts as reported by the provider */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /** Prompt tokens served from the provider's prompt cache; included in promptTokens */
+    cachedTokens: number;
+}
+
+/**
+ * The real prompt size of the last request next to our estimate of the same
+ * conversation, so later estimates can be corrected by the difference.
+ */
+export interface ContextCalibration {
+    promptTokens: number;
+    estimatedTokens: number;
 }
 
 export interface ChatResponse {
     type: 'text' | 'tool_use' | 'error';
     content?: string;
     tool_calls?: ToolCall[];
+    /** Reasoning the model produced before the answer, when the provider returned it */
+    reasoning?: string;
+    /** HTTP status of a failed request, when the provider reported one */
+    status?: number;
+    /** Token counts for this request, when the provider reported them */
+    usage?: TokenUsage;
+}
+
+/**
+ * Incremental output of BaseProvider.streamWithTools.
+ * `tool_call` carries the call as assembled so far (arguments is raw JSON text);
+ * the stream always ends with exactly one `done` holding the complete response.
+ */
+export type StreamEvent =
+    | { type: 'text'; delta: string }
+    | { type: 'reasoning'; delta: string }
+    | { type: 'tool_call'; index: number; id?: string; name: string; arguments: string }
+    | { type: 'done'; response: ChatResponse };
+
+export interface PermissionDecision {
+    allowed: boolean;
+    /** Optional reason from the user, passed back to the model on reject */
+    feedback?: string;
+    /** Set when a configured deny rule blocked the call without prompting */
+    deniedByRule?: string;
+    /** Why the call was refused when nobody was asked (e.g. headless mode) */
+    reason?: string;
 }
+
+/** How an agent turn ended — anything but 'done' means the task did not complete */
+export type TurnOutcome = 'done' | 'cancelled' | 'depth_limit' | 'budget' | 'error';
+
+/** One entry in the agent event stream, written as NDJSON by `--events` */
+export type AgentEvent = { timestamp: string } & (
+    | { type: 'user_message'; message: Message }
+    | { type: 'assistant_response'; response: ChatResponse; depth: number; provider: string }
+    | { type: 'fallback'; from: string; to: string; error: string }
+    | { type: 'tool_call'; call: ToolCall }
+    | { type: 'permission'; call: ToolCall; decision: PermissionDecision }
+    | { type: 'tool_result'; call: ToolCall; message: Message; durationMs: number }
+    | { type: 'compaction'; strategy: 'truncate' | 'drop' | 'summarize'; beforeTokens: number; afterTokens: number; ok: boolean }
+    | { type: 'error'; error: string }
+    | { type: 'turn_end'; outcome: TurnOutcome; provider: string; usage: TokenUsage; cost?: number }
+);
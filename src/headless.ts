@@ -0,0 +1,126 @@
+
+import { getProvider } from './core/factory';
+import { SystemPromptManager } from './core/prompt';
+import { Agent, MAX_TOOL_DEPTH } from './core/agent';
+import { evaluatePermission, formatRule, DANGEROUS_TOOLS } from './core/permissions';
+import { checkpoints } from './core/checkpoints';
+import { eventLog } from './core/events';
+import { loadImageMentions } from './core/images';
+import { Message, PermissionDecision, TurnOutcome } from './core/types';
+import { ToolExecutor } from './tools/execution';
+import { CliOptions, USAGE } from './args';
+
+/**
+ * Non-interactive mode: `cloudecode -p "prompt"`.
+ *
+ * Runs one agent turn without Ink.  The final answer goes to stdout; tool
+ * activity and notices go to stderr so the answer can be piped.  Nobody is
+ * there to approve tool calls, so permissions come from the command line
+ * (plus any configured allow/deny rules).
+ */
+
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_DEPTH_LIMIT = 3;
+
+async function readStdin(options: CliOptions): Promise<string> {
+    if (!options.readStdin || process.stdin.isTTY) return '';
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf-8').trim();
+}
+
+function writeOut(stream: NodeJS.WriteStream, text: string): Promise<void> {
+    return new Promise(resolve => stream.write(text, () => resolve()));
+}
+
+function describeCall(args: Record<string, any>): string {
+    const summary = args.command || args.path || args.pattern || args.url || args.process_id
+        || (Array.isArray(args.paths) ? args.paths.join(', ') : JSON.stringify(args));
+    const text = String(summary).replace(/\s+/g, ' ');
+    return text.length > 120 ? text.substring(0, 117) + '...' : text;
+}
+
+/** Run one prompt to completion and return the process exit code. */
+export async function runHeadless(options: CliOptions): Promise<number> {
+    const stdinText = await readStdin(options);
+    // Piped input is extra context when a prompt is also given on the command line
+    const prompt = [options.prompt, stdinText].filter(Boolean).join('\n\n');
+    if (!prompt) {
+        await writeOut(process.stderr, `No prompt given.\n\n${USAGE}\n`);
+        return EXIT_USAGE;
+    }
+
+    let provider;
+    try {
+        provider = getProvider();
+    } catch (err: any) {
+        await writeOut(process.stderr, `Error: ${err?.message || err}\nRun cloudecode once interactively to configure a provider.\n`);
+        return EXIT_USAGE;
+    }
+    provider.setSystemPrompt(SystemPromptManager.getSystemPrompt());
+
+    // `@shot.png` in the prompt attaches the image
+    const { images, errors } = await loadImageMentions(prompt, process.cwd());
+    if (errors.length > 0) {
+        await writeOut(process.stderr, `Error: ${errors.join('\n')}\n`);
+        return EXIT_USAGE;
+    }
+
+    const executor = new ToolExecutor();
+
+    const requestPermission = async (toolName: string, args: Record<string, any>): Promise<PermissionDecision> => {
+        const { verdict, rule } = evaluatePermission(toolName, args, executor.getCwd());
+        if (verdict === 'deny') return { allowed: false, deniedByRule: rule ? formatRule(rule) : toolName };
+        if (verdict === 'allow') return { allowed: true };
+
+        if (options.yes || options.allow.includes(toolName)) return { allowed: true };
+        if (!DANGEROUS_TOOLS.includes(toolName)) return { allowed: true };
+
+        return {
+            allowed: false,
+            reason: `not allowed in this non-interactive run (pass --allow ${toolName} or --yes). Continue without it, or explain what the user needs to run.`
+        };
+    };
+
+    const onMessage = (msg: Message) => {
+        if (msg.role === 'system') {
+            process.stderr.write(`-- ${msg.content}\n`);
+        } else if (msg.role === 'assistant' && msg.tool_calls?.length) {
+            if (msg.content.trim()) process.stderr.write(`${msg.content.trim()}\n`);
+            for (const call of msg.tool_calls) {
+                process.stderr.write(`[${call.name}] ${describeCall(call.arguments)}\n`);
+            }
+        }
+    };
+
+    const agent = new Agent(executor, { onMessage, requestPermission });
+    agent.on('event', event => eventLog.write(event));
+    const controller = new AbortController();
+    const onSigint = () => controller.abort();
+    process.once('SIGINT', onSigint);
+
+    checkpoints.beginTurn(prompt);
+
+    let outcome: TurnOutcome;
+    try {
+        outcome = await agent.runTurn(provider, prompt, controller.signal, images);
+    } finally {
+        process.removeListener('SIGINT', onSigint);
+        executor.stopAll();
+    }
+
+    if (outcome === 'done') {
+        // With `--events -` stdout is pure NDJSON; the answer is in the assistant_response event
+        if (!eventLog.toStdout) await writeOut(process.stdout, agent.lastAnswer.endsWith('\n') ? agent.lastAnswer : agent.lastAnswer + '\n');
+        return EXIT_OK;
+    }
+    if (outcome === 'depth_limit') {
+        await writeOut(process.stderr, `Stopped after ${MAX_TOOL_DEPTH} tool rounds without a final answer.\n`);
+        return EXIT_DEPTH_LIMIT;
+    }
+    return EXIT_ERROR;
+}
@@ -0,0 +1,325 @@
+
+import { BaseProvider } from './base';
+import { Message, ToolDefinition, ChatResponse, StreamEvent, ToolCall, TokenUsage, ImagePart } from '../core/types';
+import { readServerSentEvents, ToolCallAssembler } from './streaming';
+import { RequestScheduler } from './scheduler';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5';
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 8192;
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+/**
+ * Claude through the native Messages API.  Tool calls and results travel as
+ * `tool_use` / `tool_result` content blocks, and the system prompt and tool
+ * list are marked for prompt caching.
+ */
+export class AnthropicProvider extends BaseProvider {
+    // 429 and 529 (overloaded) responses carry retry-after
+    private static scheduler = new RequestScheduler({ name: 'Anthropic' });
+    baseUrl: string;
+
+    constructor(apiKey?: string, model: string = DEFAULT_MODEL, baseUrl?: string) {
+        super(apiKey, model);
+        if (!apiKey) throw new Error('Anthropic API key required');
+        this.baseUrl = AnthropicProvider.resolveBaseUrl(baseUrl);
+    }
+
+    get name(): string {
+        return 'Anthropic';
+    }
+
+    /** Config value, then ANTHROPIC_BASE_URL (proxies, local mock servers), then the public API */
+    private static resolveBaseUrl(baseUrl?: string): string {
+        return (baseUrl || process.env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    }
+
+    private static headers(apiKey: string): Record<string, string> {
+        return {
+            'x-api-key': apiKey,
+            'anthropic-version': API_VERSION,
+            'Content-Type': 'application/json',
+        };
+    }
+
+    async validateConnection(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/v1/models`, {
+                headers: AnthropicProvider.headers(this.apiKey!)
+            });
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Send a one-token request and read the input token limit per minute from
+     * the rate limit headers.
+     */
+    static async probeRateLimit(apiKey: string, model: string, baseUrl?: string): Promise<number | null> {
+        try {
+            const response = await fetch(`${AnthropicProvider.resolveBaseUrl(baseUrl)}/v1/messages`, {
+                method: 'POST',
+                headers: AnthropicProvider.headers(apiKey),
+                body: JSON.stringify({
+                    model,
+                    max_tokens: 1,
+                    messages: [{ role: 'user', content: 'hi' }]
+                })
+            });
+
+            const header = response.headers.get('anthropic-ratelimit-input-tokens-limit')
+                || response.headers.get('anthropic-ratelimit-tokens-limit');
+            if (header) {
+                const limit = parseInt(header, 10);
+                if (!isNaN(limit) && limit > 0) return limit;
+            }
+            return null;
+        } catch {
+            return null;
+        }
+    }
+
+    static async fetchModels(apiKey: string, baseUrl?: string): Promise<any[]> {
+        try {
+            const response = await fetch(`${AnthropicProvider.resolveBaseUrl(baseUrl)}/v1/models?limit=100`, {
+                headers: AnthropicProvider.headers(apiKey)
+            });
+            if (!response.ok) return AnthropicProvider.fallbackModels();
+
+            const data: any = await response.json();
+            if (!Array.isArray(data?.data) || data.data.length === 0) return AnthropicProvider.fallbackModels();
+
+            // The models endpoint does not report context windows; every current model has 200k
+            return data.data.map((m: any) => ({
+                id: m.id,
+                name: m.display_name || m.id,
+                contextWindow: DEFAULT_CONTEXT_WINDOW,
+            })).sort((a: any, b: any) => a.id.localeCompare(b.id));
+        } catch {
+            return AnthropicProvider.fallbackModels();
+        }
+    }
+
+    private static fallbackModels(): any[] {
+        return [
+            { id: 'claude-sonnet-4-5', contextWindow: DEFAULT_CONTEXT_WINDOW },
+            { id: 'claude-opus-4-1', contextWindow: DEFAULT_CONTEXT_WINDOW },
+            { id: 'claude-haiku-4-5', contextWindow: DEFAULT_CONTEXT_WINDOW },
+            { id: 'claude-3-5-haiku-latest', contextWindow: DEFAULT_CONTEXT_WINDOW },
+        ];
+    }
+
+    async chat(message: string, onStream?: (chunk: string) => void): Promise<string> {
+        const response = await this.chatWithTools([{ role: 'user', content: message }], [], this.systemPrompt);
+        if (response.type === 'error') throw new Error(response.content || 'Anthropic chat error');
+        const content = response.content || '';
+        this.addMessage('user', message);
+        this.addMessage('assistant', content);
+        return content;
+    }
+
+    /**
+     * Convert our history to Messages API turns.  Roles must alternate, so
+     * consecutive blocks for the same role (e.g. several tool results) are
+     * merged into one message.
+     */
+    private buildMessages(messages: Message[]): any[] {
+        const result: { role: 'user' | 'assistant'; content: any[] }[] = [];
+        const push = (role: 'user' | 'assistant', blocks: any[]) => {
+            if (blocks.length === 0) return;
+            const last = result[result.length - 1];
+            if (last && last.role === role) {
+                last.content.push(...blocks);
+            } else {
+                result.push({ role, content: blocks });
+            }
+        };
+
+        for (const msg of messages) {
+            if (msg.role === 'tool') {
+                const text = msg.content || '(no output)';
+                push('user', [{
+                    type: 'tool_result',
+                    tool_use_id: msg.tool_call_id,
+                    // Images read by tools go inside the result
+                    content: msg.images?.length ? [{ type: 'text', text }, ...AnthropicProvider.imageBlocks(msg.images)] : text,
+                    ...(msg.content.startsWith('ERROR:') ? { is_error: true } : {}),
+                }]);
+            } else if (msg.role === 'assistant') {
+                const blocks: any[] = [];
+                // Empty text blocks are rejected by the API
+                if (msg.content?.trim()) blocks.push({ type: 'text', text: msg.content });
+                for (const tc of msg.tool_calls || []) {
+                    blocks.push({ type: 'tool_use', id: tc.id, name: tc.name, input: tc.arguments || {} });
+                }
+                push('assistant', blocks);
+            } else if (msg.content?.trim() || msg.images?.length) {
+                // user + system: both become user text for this API call
+                push('user', [
+                    ...(msg.content?.trim() ? [{ type: 'text', text: msg.content }] : []),
+                    ...AnthropicProvider.imageBlocks(msg.images || []),
+                ]);
+            }
+        }
+
+        return result;
+    }
+
+    private static imageBlocks(images: ImagePart[]): any[] {
+        return images.map(image => ({ type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } }));
+    }
+
+    private buildRequestBody(messages: Message[], tools: ToolDefinition[], system?: string, stream = false): any {
+        const body: any = {
+            model: this.model || DEFAULT_MODEL,
+            max_tokens: MAX_OUTPUT_TOKENS,
+            messages: this.buildMessages(messages),
+        };
+
+        // The system prompt and tool list rarely change between rounds; caching them saves input tokens
+        if (system) {
+            body.system = [{ type: 'text', text: system, cache_control: { type: 'ephemeral' } }];
+        }
+        if (tools.length > 0) {
+            body.tools = tools.map(t => ({
+                name: t.name,
+                description: t.description,
+                input_schema: t.parameters,
+            }));
+            body.tools[body.tools.length - 1].cache_control = { type: 'ephemeral' };
+        }
+        if (stream) body.stream = true;
+
+        return body;
+    }
+
+    /**
+     * `input_tokens` excludes cache reads and writes; our prompt count is the
+     * whole prompt, so they are added back.
+     */
+    private static extractUsage(usage: any): TokenUsage | undefined {
+        if (!usage) return undefined;
+        const cacheRead = usage.cache_read_input_tokens || 0;
+        return {
+            promptTokens: (usage.input_tokens || 0) + cacheRead + (usage.cache_creation_input_tokens || 0),
+            completionTokens: usage.output_tokens || 0,
+            cachedTokens: cacheRead,
+        };
+    }
+
+    private parseContent(blocks: any[]): ChatResponse {
+        let content = '';
+        const toolCalls: ToolCall[] = [];
+        for (const block of blocks || []) {
+            if (block.type === 'text') content += block.text;
+            if (block.type === 'tool_use') {
+                toolCalls.push({ id: block.id, name: block.name, arguments: block.input || {} });
+            }
+        }
+        return toolCalls.length > 0
+            ? { type: 'tool_use', content, tool_calls: toolCalls }
+            : { type: 'text', content };
+    }
+
+    /** POST /v1/messages through the scheduler; API errors keep the message from the error body */
+    private postMessages(body: any, signal?: AbortSignal): Promise<{ value: Response; done: () => void }> {
+        return AnthropicProvider.scheduler.schedule(async requestSignal => {
+            const response = await fetch(`${this.baseUrl}/v1/messages`, {
+                method: 'POST',
+                headers: AnthropicProvider.headers(this.apiKey!),
+                body: JSON.stringify(body),
+                signal: requestSignal,
+            });
+            if (!response.ok) {
+                const data: any = await response.json().catch(() => null);
+                const message = data?.error?.message || response.statusText;
+                throw Object.assign(new Error(`${response.status} ${message}`), { status: response.status, headers: response.headers });
+            }
+            return response;
+        }, { signal, maxRetries: this.maxRetries });
+    }
+
+    private errorResponse(error: any, signal?: AbortSignal): ChatResponse {
+        if (error?.name === 'AbortError' || signal?.aborted) {
+            return { type: 'error', content: 'Request cancelled by user.' };
+        }
+        return {
+            type: 'error',
+            status: error?.status,
+            content: error?.message || 'Unknown error during Anthropic API call'
+        };
+    }
+
+    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+        try {
+            const { value: response, done } = await this.postMessages(this.buildRequestBody(messages, tools, system), signal);
+            try {
+                const data: any = await response.json();
+                return { ...this.parseContent(data?.content), usage: AnthropicProvider.extractUsage(data?.usage) };
+            } finally {
+                done();
+            }
+        } catch (error: any) {
+            return this.errorResponse(error, signal);
+        }
+    }
+
+    async *streamWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+        try {
+            const { value: response, done } = await this.postMessages(this.buildRequestBody(messages, tools, system, true), signal);
+            try {
+                yield* this.readStream(response.body!);
+            } finally {
+                done();
+            }
+        } catch (error: any) {
+            yield { type: 'done', response: this.errorResponse(error, signal) };
+        }
+    }
+
+    /** Messages API events → StreamEvents */
+    private async *readStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+        let content = '';
+        const assembler = new ToolCallAssembler();
+        // Content block index → tool call index, for input_json_delta fragments
+        const toolIndex = new Map<number, number>();
+        // Input counts come with message_start, the output count with message_delta
+        let usage: any;
+
+        for await (const payload of readServerSentEvents(body)) {
+            const event = JSON.parse(payload);
+            if (event.type === 'error') {
+                yield { type: 'done', response: { type: 'error', content: `Anthropic API error: ${event.error?.message || 'stream failed'}` } };
+                return;
+            }
+            if (event.type === 'message_start') {
+                usage = { ...event.message?.usage };
+            } else if (event.type === 'message_delta' && event.usage) {
+                usage = { ...usage, ...event.usage };
+            } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+                toolIndex.set(event.index, assembler.size);
+                yield assembler.add({ index: assembler.size, id: event.content_block.id, function: { name: event.content_block.name } });
+            } else if (event.type === 'content_block_delta') {
+                const delta = event.delta;
+                if (delta?.type === 'text_delta' && delta.text) {
+                    content += delta.text;
+                    yield { type: 'text', delta: delta.text };
+                } else if (delta?.type === 'input_json_delta' && toolIndex.has(event.index)) {
+                    yield assembler.add({ index: toolIndex.get(event.index), function: { arguments: delta.partial_json } });
+                }
+            } else if (event.type === 'message_stop') {
+                break;
+            }
+        }
+
+        yield {
+            type: 'done',
+            response: assembler.size > 0
+                ? { type: 'tool_use', content, tool_calls: assembler.finish('anthropic_tc'), usage: AnthropicProvider.extractUsage(usage) }
+                : { type: 'text', content, usage: AnthropicProvider.extractUsage(usage) },
+        };
+    }
+}
@@ -1,11 +1,20 @@
 
-import { Message, ToolDefinition, ChatResponse } from '../core/types';
+import { Message, ToolDefinition, ChatResponse, StreamEvent, ContextCalibration, ModelInfo } from '../core/types';
+
+// Small or speed-tuned models, by id
+const FAST_MODEL = /\b[1-9]b\b|instant|flash|mini|haiku|lite|gemma/i;
 
 export abstract class BaseProvider {
     apiKey?: string;
     model?: string;
+    /** Registry id (`groq`, `ollama`, ...), set when built through the registry */
+    providerId?: string;
     conversationHistory: Message[] = [];
     systemPrompt?: string;
+    /** Set by the agent from the last reported prompt size */
+    contextCalibration?: ContextCalibration;
+    /** Retries per chat request, when lower than the scheduler's (a fallback is waiting) */
+    maxRetries?: number;
 
     constructor(apiKey?: string, model?: string) {
         this.apiKey = apiKey;
@@ -28,14 +37,44 @@ export abstract class BaseProvider {
         signal?: AbortSignal
     ): Promise<ChatResponse>;
 
+    /**
+     * Streaming variant of chatWithTools — override in subclass.
+     * The default waits for the whole response and yields it in one piece.
+     */
+    async *streamWithTools(
+        messages: Message[],
+        tools: ToolDefinition[],
+        system?: string,
+        signal?: AbortSignal
+    ): AsyncGenerator<StreamEvent> {
+        const response = await this.chatWithTools(messages, tools, system, signal);
+        if (response.content) yield { type: 'text', delta: response.content };
+        yield { type: 'done', response };
+    }
+
     // Dynamic model fetching — override in subclass
     static async fetchModels(apiKey: string): Promise<any[]> {
         return [];
     }
 
-    // Model categorization — override in subclass
-    static categorizeModels(models: any[]): { fast: any[]; allRounder: any[]; context: any[] } {
-        return { fast: [], allRounder: [], context: [] };
+    /**
+     * Group chat models for the setup list: small/fast models, large-context
+     * models and the rest.  Embedding, audio and guard models are left out.
+     * Override in subclass.
+     */
+    static categorizeModels(models: ModelInfo[]): { fast: ModelInfo[]; allRounder: ModelInfo[]; context: ModelInfo[] } {
+        const groups = { fast: [] as ModelInfo[], allRounder: [] as ModelInfo[], context: [] as ModelInfo[] };
+        for (const model of models) {
+            if (model.capabilities.kind !== 'chat') continue;
+            if (FAST_MODEL.test(model.id)) {
+                groups.fast.push(model);
+            } else if (model.contextWindow >= 100000) {
+                groups.context.push(model);
+            } else {
+                groups.allRounder.push(model);
+            }
+        }
+        return groups;
     }
 
     setSystemPrompt(prompt: string) {
@@ -47,6 +86,12 @@ export abstract class BaseProvider {
     }
 
     clearHistory() {
-        this.conversationHistory = [];
+        this.setHistory([]);
+    }
+
+    /** Replace the conversation; the calibration measured the old one, so it goes too */
+    setHistory(history: Message[]) {
+        this.conversationHistory = history;
+        this.contextCalibration = undefined;
     }
 }
@@ -1,14 +1,16 @@
 import { BaseProvider } from './base';
-import { Message, ToolDefinition, ChatResponse } from '../core/types';
+import { Message, ToolDefinition, ChatResponse, StreamEvent, TokenUsage, ReasoningEffort } from '../core/types';
+import { readServerSentEvents } from './streaming';
+import { RequestScheduler } from './scheduler';
+import { reasoningEffort } from '../core/reasoning';
+import { supportsReasoning } from '../core/models';
 
 const DEFAULT_MODEL = 'gemini-1.5-flash';
 const MODELS_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models';
 const GENERATE_CONTENT_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
-const REQUEST_TIMEOUT_MS = 120000;
-const MAX_RETRY_ATTEMPTS = 4;
-const BASE_RETRY_DELAY_MS = 750;
-const MAX_RETRY_DELAY_MS = 8000;
-const MIN_REQUEST_SPACING_MS = 400;
+
+// Gemini 2.5 thinking budgets in tokens; Gemini 3 takes a level instead
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = { off: 0, low: 1024, medium: 8192, high: 24576 };
 
 type GeminiFunctionCall = {
     id: string;
@@ -17,8 +19,8 @@ type GeminiFunctionCall = {
 };
 
 export class GoogleAIStudioProvider extends BaseProvider {
-    private static requestQueue: Promise<void> = Promise.resolve();
-    private static lastRequestStartedAt = 0;
+    // Shared by all instances: the free tier rate-limits bursts, so requests are spaced out
+    private static scheduler = new RequestScheduler({ name: 'Google AI Studio', minSpacingMs: 400 });
 
     constructor(apiKey?: string, model: string = DEFAULT_MODEL) {
         super(apiKey, model);
@@ -82,9 +84,16 @@ export class GoogleAIStudioProvider extends BaseProvider {
                     const id = GoogleAIStudioProvider.normalizeModelId(rawId);
                     if (!id) return null;
 
+                    const methods: string[] | undefined = m?.supportedGenerationMethods;
                     return {
                         id,
                         contextWindow: GoogleAIStudioProvider.getContextWindowFromModelMeta(m) || undefined,
+                        capabilities: {
+                            // Embedding models only offer embedContent
+                            kind: methods && !methods.includes('generateContent') ? 'embedding' : undefined,
+                            reasoning: m?.thinking === true ? true : undefined,
+                            maxOutput: m?.outputTokenLimit || undefined,
+                        },
                     };
                 })
                 .filter(Boolean) as any[];
@@ -120,15 +129,22 @@ export class GoogleAIStudioProvider extends BaseProvider {
     }
 
     private extractText(resp: any): string {
+        return this.extractRawText(resp).trim();
+    }
+
+    // Untrimmed text — stream chunks must keep their leading/trailing whitespace
+    private extractRawText(resp: any, thoughts: boolean = false): string {
         const parts = resp?.candidates?.[0]?.content?.parts;
         if (Array.isArray(parts)) {
+            // Thought summaries are text parts marked `thought`
             const texts = parts
+                .filter((p: any) => (p?.thought === true) === thoughts)
                 .map((p: any) => p?.text)
                 .filter((t: any) => typeof t === 'string' && t.length > 0);
-            return texts.join('').trim();
+            return texts.join('');
         }
         // Some versions may use a flattened field.
-        return (resp?.text && typeof resp.text === 'string') ? resp.text.trim() : '';
+        return (!thoughts && resp?.text && typeof resp.text === 'string') ? resp.text : '';
     }
 
     private extractFunctionCalls(resp: any): GeminiFunctionCall[] {
@@ -181,125 +197,6 @@ export class GoogleAIStudioProvider extends BaseProvider {
         };
     }
 
-    private abortError(): Error {
-        const error = new Error('Request cancelled by user.');
-        error.name = 'AbortError';
-        return error;
-    }
-
-    private throwIfAborted(signal?: AbortSignal) {
-        if (signal?.aborted) throw this.abortError();
-    }
-
-    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
-        if (ms <= 0) return Promise.resolve();
-
-        return new Promise((resolve, reject) => {
-            if (signal?.aborted) {
-                reject(this.abortError());
-                return;
-            }
-
-            const timeout = setTimeout(() => {
-                signal?.removeEventListener('abort', onAbort);
-                resolve();
-            }, ms);
-
-            const onAbort = () => {
-                clearTimeout(timeout);
-                reject(this.abortError());
-            };
-
-            signal?.addEventListener('abort', onAbort, { once: true });
-        });
-    }
-
-    private parseRetryAfterMs(response: any): number | null {
-        const retryAfter = response.headers?.get?.('retry-after');
-        if (!retryAfter) return null;
-
-        const seconds = Number(retryAfter);
-        if (!Number.isNaN(seconds)) {
-            return Math.max(0, seconds * 1000);
-        }
-
-        const date = Date.parse(retryAfter);
-        if (!Number.isNaN(date)) {
-            return Math.max(0, date - Date.now());
-        }
-
-        return null;
-    }
-
-    private isRetryableStatus(status: number): boolean {
-        return status === 408 || status === 409 || status === 429 || status >= 500;
-    }
-
-    private retryDelayMs(attempt: number, response?: any): number {
-        const retryAfter = response ? this.parseRetryAfterMs(response) : null;
-        if (retryAfter !== null) return Math.min(retryAfter, MAX_RETRY_DELAY_MS);
-
-        const exponential = Math.min(
-            MAX_RETRY_DELAY_MS,
-            BASE_RETRY_DELAY_MS * Math.pow(2, attempt)
-        );
-        const jitter = Math.floor(Math.random() * 250);
-        return exponential + jitter;
-    }
-
-    private createRequestSignal(parent?: AbortSignal): { signal: AbortSignal; cleanup: () => void; timedOut: () => boolean } {
-        const controller = new AbortController();
-        let didTimeout = false;
-        const timeout = setTimeout(() => {
-            didTimeout = true;
-            controller.abort();
-        }, REQUEST_TIMEOUT_MS);
-
-        const onAbort = () => controller.abort();
-        parent?.addEventListener('abort', onAbort, { once: true });
-
-        return {
-            signal: controller.signal,
-            cleanup: () => {
-                clearTimeout(timeout);
-                parent?.removeEventListener('abort', onAbort);
-            },
-            timedOut: () => didTimeout,
-        };
-    }
-
-    private async waitForRequestSlot(signal?: AbortSignal): Promise<void> {
-        this.throwIfAborted(signal);
-
-        const elapsed = Date.now() - GoogleAIStudioProvider.lastRequestStartedAt;
-        const waitMs = Math.max(0, MIN_REQUEST_SPACING_MS - elapsed);
-        await this.sleep(waitMs, signal);
-
-        GoogleAIStudioProvider.lastRequestStartedAt = Date.now();
-    }
-
-    private async runQueued<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
-        const previous = GoogleAIStudioProvider.requestQueue;
-        let release!: () => void;
-        GoogleAIStudioProvider.requestQueue = new Promise(resolve => {
-            release = resolve;
-        });
-
-        await previous.catch(() => undefined);
-
-        try {
-            await this.waitForRequestSlot(signal);
-            return await operation();
-        } finally {
-            release();
-        }
-    }
-
-    private formatErrorMessage(status: number, bodyText: string, attempts: number): string {
-        const suffix = attempts > 1 ? ` after ${attempts} attempts` : '';
-        return `Google AI Studio request failed${suffix}: ${status} ${bodyText}`.trim();
-    }
-
     private buildContentsFromHistory(messages: Message[]): any[] {
         const contents: any[] = [];
         const toolNameById = new Map<string, string>();
@@ -334,7 +231,7 @@ export class GoogleAIStudioProvider extends BaseProvider {
                                 result: msg.content
                             }
                         }
-                    }]
+                    }, ...this.imageParts(msg)]
                 });
                 continue;
             }
@@ -366,19 +263,18 @@ export class GoogleAIStudioProvider extends BaseProvider {
             // user + system: both become user messages for this API call.
             contents.push({
                 role: 'user',
-                parts: [{ text: msg.content || '' }]
+                parts: [{ text: msg.content || '' }, ...this.imageParts(msg)]
             });
         }
 
         return contents;
     }
 
-    private async generateContent(
-        contents: any[],
-        system?: string,
-        tools?: ToolDefinition[],
-        signal?: AbortSignal
-    ): Promise<any> {
+    private imageParts(msg: Message): any[] {
+        return (msg.images || []).map(image => ({ inlineData: { mimeType: image.mediaType, data: image.data } }));
+    }
+
+    private buildRequestBody(contents: any[], system?: string, tools?: ToolDefinition[]): any {
         const functionDeclarations = tools?.map(t => ({
             name: t.name,
             description: t.description,
@@ -405,65 +301,80 @@ export class GoogleAIStudioProvider extends BaseProvider {
             };
         }
 
-        return this.runQueued(async () => {
-            let lastStatus = 0;
-            let lastBody = '';
-
-            for (let attempt = 0; attempt <= MAX_RETRY_ATTEMPTS; attempt++) {
-                this.throwIfAborted(signal);
-
-                const request = this.createRequestSignal(signal);
-                try {
-                    const response = await fetch(`${GENERATE_CONTENT_BASE}/${this.model}:generateContent`, {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                            'x-goog-api-key': this.apiKey || '',
-                        },
-                        body: JSON.stringify(body),
-                        signal: request.signal,
-                    });
-
-                    if (response.ok) {
-                        return response.json();
-                    }
-
-                    lastStatus = response.status;
-                    lastBody = await response.text().catch(() => '');
+        // Models without thinking reject thinkingConfig
+        if (supportsReasoning(this)) {
+            body.generationConfig = { thinkingConfig: this.thinkingConfig(reasoningEffort(this)) };
+        }
 
-                    if (!this.isRetryableStatus(response.status) || attempt === MAX_RETRY_ATTEMPTS) {
-                        const error = new Error(this.formatErrorMessage(response.status, lastBody, attempt + 1));
-                        (error as any).nonRetryable = true;
-                        throw error;
-                    }
+        return body;
+    }
 
-                    await this.sleep(this.retryDelayMs(attempt, response), signal);
-                } catch (error: any) {
-                    if (signal?.aborted) {
-                        throw this.abortError();
-                    }
+    private thinkingConfig(effort?: ReasoningEffort): any {
+        const thinkingConfig: any = { includeThoughts: effort !== 'off' };
+        if (!effort) return thinkingConfig;
+        if (/gemini-3/i.test(this.model || '')) {
+            // Gemini 3 cannot stop thinking; `low` is the least it does
+            thinkingConfig.thinkingLevel = effort === 'medium' || effort === 'high' ? 'high' : 'low';
+        } else {
+            thinkingConfig.thinkingBudget = THINKING_BUDGETS[effort];
+        }
+        return thinkingConfig;
+    }
 
-                    if (error?.nonRetryable) {
-                        throw error;
-                    }
+    /**
+     * POST to a model endpoint through the shared scheduler (queue, spacing,
+     * retries).  Resolves once a successful response's headers arrive; the
+     * caller reads the body and then calls `done()` to release the abort hook.
+     */
+    private openRequest(
+        action: 'generateContent' | 'streamGenerateContent?alt=sse',
+        body: any,
+        signal?: AbortSignal
+    ): Promise<{ response: Response; done: () => void }> {
+        return GoogleAIStudioProvider.scheduler.fetch(`${GENERATE_CONTENT_BASE}/${this.model}:${action}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-goog-api-key': this.apiKey || '',
+            },
+            body: JSON.stringify(body),
+        }, { signal, maxRetries: this.maxRetries });
+    }
 
-                    if (attempt === MAX_RETRY_ATTEMPTS) {
-                        const message = request.timedOut()
-                            ? `Google AI Studio request timed out after ${attempt + 1} attempts`
-                            : lastStatus
-                            ? this.formatErrorMessage(lastStatus, lastBody, attempt + 1)
-                            : `Google AI Studio request failed after ${attempt + 1} attempts: ${error?.message || error}`;
-                        throw new Error(message);
-                    }
+    private async generateContent(
+        contents: any[],
+        system?: string,
+        tools?: ToolDefinition[],
+        signal?: AbortSignal
+    ): Promise<any> {
+        const { response, done } = await this.openRequest('generateContent', this.buildRequestBody(contents, system, tools), signal);
+        try {
+            return await response.json();
+        } finally {
+            done();
+        }
+    }
 
-                    await this.sleep(this.retryDelayMs(attempt), signal);
-                } finally {
-                    request.cleanup();
-                }
-            }
+    // Thinking tokens are billed as output
+    private extractUsage(data: any): TokenUsage | undefined {
+        const meta = data?.usageMetadata;
+        if (!meta) return undefined;
+        return {
+            promptTokens: meta.promptTokenCount || 0,
+            completionTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+            cachedTokens: meta.cachedContentTokenCount || 0,
+        };
+    }
 
-            throw new Error('Google AI Studio request failed: exhausted retry attempts');
-        }, signal);
+    private errorResponse(error: any, signal?: AbortSignal): ChatResponse {
+        if (error?.name === 'AbortError' || signal?.aborted) {
+            return { type: 'error', content: 'Request cancelled by user.' };
+        }
+        return {
+            type: 'error',
+            status: error?.status,
+            content: error?.message || 'Unknown error during Google AI Studio API call',
+        };
     }
 
     async chat(message: string, _onStream?: (chunk: string) => void): Promise<string> {
@@ -490,32 +401,98 @@ export class GoogleAIStudioProvider extends BaseProvider {
         try {
             const data = await this.generateContent(contents, system, tools, signal);
             const text = this.extractText(data);
+            const reasoning = this.extractRawText(data, true).trim() || undefined;
             const functionCalls = this.extractFunctionCalls(data);
 
             if (functionCalls.length > 0) {
                 return {
                     type: 'tool_use',
                     content: text || '',
+                    reasoning,
                     tool_calls: functionCalls.map((fc, idx) => ({
                         id: fc.id || `gemini_tool_${Date.now()}_${idx}`,
                         name: fc.name,
                         arguments: fc.args || {},
                     })),
+                    usage: this.extractUsage(data),
                 };
             }
 
             return {
                 type: 'text',
                 content: text || '',
+                reasoning,
+                usage: this.extractUsage(data),
             };
         } catch (error: any) {
-            if (error?.name === 'AbortError' || signal?.aborted) {
-                return { type: 'error', content: 'Request cancelled by user.' };
+            return this.errorResponse(error, signal);
+        }
+    }
+
+    /** Streams `streamGenerateContent` as server-sent events, one GenerateContentResponse per event */
+    async *streamWithTools(
+        messages: Message[],
+        tools: ToolDefinition[],
+        system?: string,
+        signal?: AbortSignal
+    ): AsyncGenerator<StreamEvent> {
+        const contents = this.buildContentsFromHistory(messages);
+        let done: (() => void) | undefined;
+
+        try {
+            const opened = await this.openRequest('streamGenerateContent?alt=sse', this.buildRequestBody(contents, system, tools), signal);
+            done = opened.done;
+            if (!opened.response.body) throw new Error('Google AI Studio returned an empty stream');
+
+            let text = '';
+            let reasoning = '';
+            let usage: TokenUsage | undefined;
+            const functionCalls: GeminiFunctionCall[] = [];
+
+            for await (const payload of readServerSentEvents(opened.response.body)) {
+                const chunk = JSON.parse(payload);
+                // Every chunk carries the running totals; the last one is final
+                usage = this.extractUsage(chunk) ?? usage;
+                const thought = this.extractRawText(chunk, true);
+                if (thought) {
+                    reasoning += thought;
+                    yield { type: 'reasoning', delta: thought };
+                }
+                const delta = this.extractRawText(chunk);
+                if (delta) {
+                    text += delta;
+                    yield { type: 'text', delta };
+                }
+                // Function calls arrive whole, never split across chunks
+                for (const fc of this.extractFunctionCalls(chunk)) {
+                    yield { type: 'tool_call', index: functionCalls.length, id: fc.id, name: fc.name, arguments: JSON.stringify(fc.args || {}) };
+                    functionCalls.push(fc);
+                }
             }
-            return {
-                type: 'error',
-                content: error?.message || 'Unknown error during Google AI Studio API call',
-            };
+
+            if (functionCalls.length > 0) {
+                yield {
+                    type: 'done',
+                    response: {
+                        type: 'tool_use',
+                        content: text.trim(),
+                        reasoning: reasoning.trim() || undefined,
+                        tool_calls: functionCalls.map((fc, idx) => ({
+                            id: fc.id || `gemini_tool_${Date.now()}_${idx}`,
+                            name: fc.name,
+                            arguments: fc.args || {},
+                        })),
+                        usage,
+                    },
+                };
+                return;
+            }
+
+            yield { type: 'done', response: { type: 'text', content: text.trim(), reasoning: reasoning.trim() || undefined, usage } };
+        } catch (error: any) {
+            yield { type: 'done', response: this.errorResponse(error, signal) };
+        } finally {
+            done?.();
         }
     }
 }
@@ -1,11 +1,17 @@
 
 import { BaseProvider } from './base';
-import { Message, ToolDefinition, ChatResponse } from '../core/types';
+import { Message, ToolDefinition, ChatResponse, StreamEvent } from '../core/types';
+import { streamOpenAIChunks, openAIUsage, openAIReasoning } from './streaming';
+import { reasoningEffort, splitReasoning } from '../core/reasoning';
+import { moveToolImagesToUser, toOpenAIContent } from '../core/images';
+import { RequestScheduler, estimateRequestTokens } from './scheduler';
 import OpenAI from 'openai';
 
 const DEFAULT_MODEL = 'qwen-2.5-coder-32b';
 
 export class GroqProvider extends BaseProvider {
+    // Shared by all instances; Groq's per-minute token budget is tracked from response headers
+    private static scheduler = new RequestScheduler({ name: 'Groq', tokenAware: true });
     client: OpenAI;
 
     constructor(apiKey?: string, model: string = DEFAULT_MODEL) {
@@ -14,6 +20,8 @@ export class GroqProvider extends BaseProvider {
         this.client = new OpenAI({
             apiKey,
             baseURL: 'https://api.groq.com/openai/v1',
+            // Retries go through the scheduler
+            maxRetries: 0,
         });
     }
 
@@ -78,8 +86,8 @@ export class GroqProvider extends BaseProvider {
             return data.data.map((m: any) => ({
                 id: m.id,
                 contextWindow: m.context_window || 8192,
-                name: m.id, 
-                // Groq is fast, let's assume valid types
+                name: m.id,
+                capabilities: { maxOutput: m.max_completion_tokens || undefined },
             })).sort((a: any, b: any) => a.id.localeCompare(b.id));
 
         } catch {
@@ -117,7 +125,8 @@ export class GroqProvider extends BaseProvider {
         }
     }
 
-    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+    private buildRequest(messages: Message[], tools: ToolDefinition[], system?: string) {
+        const effort = reasoningEffort(this);
         const openaiMessages: any[] = [];
 
         // Add system prompt first
@@ -125,8 +134,8 @@ export class GroqProvider extends BaseProvider {
             openaiMessages.push({ role: 'system', content: system });
         }
 
-        // Convert messages
-        for (const msg of messages) {
+        // Convert messages; tool messages are text only, so images read by tools follow them as a user message
+        for (const msg of moveToolImagesToUser(messages)) {
             if (msg.role === 'tool') {
                 openaiMessages.push({
                     role: 'tool',
@@ -149,27 +158,51 @@ export class GroqProvider extends BaseProvider {
                  }
                  openaiMessages.push(parts);
             } else {
-                openaiMessages.push({ role: msg.role, content: msg.content });
+                openaiMessages.push({ role: msg.role, content: toOpenAIContent(msg) });
             }
         }
 
-        try {
-            const toolsConfig = tools.map(t => ({
-                type: 'function',
-                function: {
-                    name: t.name,
-                    description: t.description,
-                    parameters: t.parameters
-                }
-            }));
+        const toolsConfig = tools.map(t => ({
+            type: 'function',
+            function: {
+                name: t.name,
+                description: t.description,
+                parameters: t.parameters
+            }
+        }));
+
+        return {
+            model: this.model || DEFAULT_MODEL,
+            messages: openaiMessages as any,
+            tools: toolsConfig as any,
+            tool_choice: 'auto' as const,
+            // `none` is the API's name for no thinking
+            ...(effort ? { reasoning_effort: (effort === 'off' ? 'none' : effort) as any } : {})
+        };
+    }
 
+    private errorResponse(error: any, signal?: AbortSignal): ChatResponse {
+        // Detect user-initiated abort
+        if (error?.name === 'AbortError' || signal?.aborted) {
+            return { type: 'error', content: 'Request cancelled by user.' };
+        }
+        return {
+            type: 'error',
+            status: error?.status,
+            content: error?.message || 'Unknown error during Groq API call'
+        };
+    }
 
-            const response = await this.client.chat.completions.create({
-                model: this.model || DEFAULT_MODEL,
-                messages: openaiMessages as any,
-                tools: toolsConfig as any,
-                tool_choice: 'auto'
-            }, signal ? { signal } : undefined);
+    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, tools, system);
+            const { value, done } = await GroqProvider.scheduler.schedule(
+                requestSignal => this.client.chat.completions.create(request, { signal: requestSignal }).withResponse(),
+                { signal, tokens: estimateRequestTokens(request), maxRetries: this.maxRetries }
+            );
+            done();
+            GroqProvider.scheduler.observe(value.response.headers);
+            const response = value.data;
 
             const choice = response.choices[0];
             const message = choice.message;
@@ -177,32 +210,42 @@ export class GroqProvider extends BaseProvider {
             if (message.tool_calls) {
                 return {
                     type: 'tool_use',
-                    content: message.content || '',
+                    ...splitReasoning(message.content || '', openAIReasoning(message)),
                     tool_calls: message.tool_calls.map(tc => ({
                         id: tc.id,
                         name: tc.function.name,
                         arguments: JSON.parse(tc.function.arguments)
-                    }))
+                    })),
+                    usage: openAIUsage(response.usage)
                 };
             }
 
             return {
                 type: 'text',
-                content: message.content || ''
+                ...splitReasoning(message.content || '', openAIReasoning(message)),
+                usage: openAIUsage(response.usage)
             };
 
         } catch (error: any) {
-            // Detect user-initiated abort
-            if (error?.name === 'AbortError' || signal?.aborted) {
-                return {
-                    type: 'error',
-                    content: 'Request cancelled by user.'
-                };
+            return this.errorResponse(error, signal);
+        }
+    }
+
+    async *streamWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+        try {
+            const request = this.buildRequest(messages, tools, system);
+            const { value, done } = await GroqProvider.scheduler.schedule(
+                requestSignal => this.client.chat.completions.create({ ...request, stream: true, stream_options: { include_usage: true } }, { signal: requestSignal }).withResponse(),
+                { signal, tokens: estimateRequestTokens(request), maxRetries: this.maxRetries }
+            );
+            GroqProvider.scheduler.observe(value.response.headers);
+            try {
+                yield* streamOpenAIChunks(value.data, 'groq_tc');
+            } finally {
+                done();
             }
-            return {
-                type: 'error',
-                content: error?.message || 'Unknown error during Groq API call'
-            };
+        } catch (error: any) {
+            yield { type: 'done', response: this.errorResponse(error, signal) };
         }
     }
 }
@@ -1,23 +1,69 @@
 
 import { BaseProvider } from './base';
-import { Message, ToolDefinition, ChatResponse } from '../core/types';
+import { Message, ToolDefinition, ChatResponse, StreamEvent, ToolCall, TokenUsage, ModelCapabilities, OllamaOptions, PullProgress, ReasoningEffort } from '../core/types';
+import { readLines } from './streaming';
+import { RequestScheduler } from './scheduler';
+import { moveToolImagesToUser } from '../core/images';
+import { reasoningEffort, ReasoningSplitter, splitReasoning } from '../core/reasoning';
 
 const DEFAULT_MODEL = 'qwen2.5-coder:32b';
-const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_PORT = 11434;
+const DEFAULT_CONTEXT_WINDOW = 8192;
 
+/**
+ * Local models through Ollama's `/api/chat`.  The host comes from config,
+ * then OLLAMA_HOST, then localhost.  `options` from config are sent with
+ * every request, and `num_ctx` defaults to the configured context window:
+ * without it Ollama loads the model with its own small default and drops
+ * the start of longer prompts.
+ */
 export class OllamaProvider extends BaseProvider {
+    // Local server: a couple of retries ride out model loading and restarts
+    private static scheduler = new RequestScheduler({ name: 'Ollama', maxRetries: 2 });
     baseUrl: string;
+    options: OllamaOptions;
 
-    constructor(apiKey?: string, model: string = DEFAULT_MODEL, baseUrl?: string) {
+    constructor(apiKey?: string, model: string = DEFAULT_MODEL, baseUrl?: string, options: OllamaOptions = {}, contextWindow?: number) {
         // Ollama doesn't need an API key, but we accept it for interface consistency
         super(apiKey || 'ollama', model);
-        this.baseUrl = baseUrl || DEFAULT_BASE_URL;
+        this.baseUrl = OllamaProvider.resolveBaseUrl(baseUrl);
+        this.options = { ...options, num_ctx: options.num_ctx || contextWindow };
     }
 
     get name(): string {
         return 'Ollama';
     }
 
+    /**
+     * Config value, then OLLAMA_HOST, then localhost.  Accepts the same forms
+     * as the ollama CLI: `host`, `host:port`, `:port` or a full URL.
+     */
+    static resolveBaseUrl(baseUrl?: string): string {
+        const host = (baseUrl || process.env.OLLAMA_HOST || '').trim().replace(/\/+$/, '');
+        if (!host) return `http://localhost:${DEFAULT_PORT}`;
+        const hasScheme = /^https?:\/\//i.test(host);
+        try {
+            const url = new URL(hasScheme ? host : `http://${host.startsWith(':') ? 'localhost' : ''}${host}`);
+            // Without a scheme the port defaults to Ollama's, as in the ollama CLI
+            if (!hasScheme && !/:\d+$/.test(host)) url.port = String(DEFAULT_PORT);
+            // A server bound to every interface is reached on localhost
+            if (url.hostname === '0.0.0.0') url.hostname = 'localhost';
+            return url.toString().replace(/\/+$/, '');
+        } catch {
+            return host;
+        }
+    }
+
+    /** Request fields from the options block: `keep_alive` at the top level, the rest under `options` */
+    private static requestOptions(options: OllamaOptions): Record<string, any> {
+        const { keep_alive, ...rest } = options;
+        const modelOptions = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
+        return {
+            ...(Object.keys(modelOptions).length > 0 ? { options: modelOptions } : {}),
+            ...(keep_alive !== undefined ? { keep_alive } : {}),
+        };
+    }
+
     async validateConnection(): Promise<boolean> {
         try {
             const response = await fetch(`${this.baseUrl}/api/tags`);
@@ -34,42 +80,122 @@ export class OllamaProvider extends BaseProvider {
         return null;
     }
 
-    static async fetchModels(_apiKey: string, baseUrl: string = DEFAULT_BASE_URL): Promise<any[]> {
+    /** Installed models from `/api/tags`, with context length and capabilities from `/api/show` */
+    static async fetchModels(_apiKey: string, baseUrl?: string): Promise<any[]> {
+        const host = OllamaProvider.resolveBaseUrl(baseUrl);
         try {
-            const response = await fetch(`${baseUrl}/api/tags`);
+            const response = await fetch(`${host}/api/tags`);
             const data: any = await response.json();
 
             if (!data?.models) return OllamaProvider.fallbackModels();
 
-            return data.models
-                .map((m: any) => ({
-                    id: m.name || m.model,
-                    name: m.name || m.model,
-                    contextWindow: m.details?.parameter_size ? OllamaProvider.estimateContext(m) : 8192,
+            const models = await Promise.all(data.models.map(async (m: any) => {
+                const id = m.name || m.model;
+                const details = await OllamaProvider.showModel(host, id);
+                return {
+                    id,
+                    name: id,
+                    contextWindow: details.contextWindow || DEFAULT_CONTEXT_WINDOW,
+                    installed: true,
                     size: m.size,
+                    quantization: m.details?.quantization_level,
                     modified: m.modified_at,
-                }))
-                .sort((a: any, b: any) => a.id.localeCompare(b.id));
+                    capabilities: { ...OllamaProvider.familyCapabilities(m.details?.families), ...details.capabilities },
+                };
+            }));
+            return models.sort((a, b) => a.id.localeCompare(b.id));
         } catch {
             return OllamaProvider.fallbackModels();
         }
     }
 
-    /** Estimate context window from model metadata */
-    private static estimateContext(model: any): number {
-        const name = (model.name || '').toLowerCase();
-        // Common context sizes based on model families
-        if (name.includes('qwen2.5')) return 131072;
-        if (name.includes('llama3') || name.includes('llama-3')) return 131072;
-        if (name.includes('gemma2')) return 8192;
-        if (name.includes('mistral') || name.includes('mixtral')) return 32768;
-        if (name.includes('deepseek')) return 65536;
-        if (name.includes('phi')) return 16384;
-        if (name.includes('codellama')) return 16384;
-        return 8192;
+    /**
+     * Context length and capabilities of one installed model.  The context
+     * length is `<architecture>.context_length` in model_info; `capabilities`
+     * is only reported by newer Ollama versions.  Failures leave both unknown.
+     */
+    static async showModel(baseUrl: string, model: string): Promise<{ contextWindow?: number; capabilities: ModelCapabilities }> {
+        try {
+            const response = await fetch(`${baseUrl}/api/show`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model }),
+            });
+            if (!response.ok) return { capabilities: {} };
+            const data: any = await response.json();
+
+            const info = data?.model_info || {};
+            const architecture = info['general.architecture'];
+            const contextLength = info[`${architecture}.context_length`];
+
+            const capabilities: ModelCapabilities = {};
+            if (Array.isArray(data?.capabilities)) {
+                const has = (name: string) => data.capabilities.includes(name);
+                capabilities.tools = has('tools');
+                if (has('vision')) capabilities.vision = true;
+                if (has('thinking')) capabilities.reasoning = true;
+                if (has('embedding') && !has('completion')) capabilities.kind = 'embedding';
+            }
+
+            return {
+                contextWindow: typeof contextLength === 'number' && contextLength > 0 ? contextLength : undefined,
+                capabilities,
+            };
+        } catch {
+            return { capabilities: {} };
+        }
+    }
+
+    /** `details.families` names the architectures in the model: a clip/mllama projector means vision, bert means embeddings */
+    private static familyCapabilities(families?: string[]): ModelCapabilities {
+        if (!Array.isArray(families)) return {};
+        const has = (pattern: RegExp) => families.some(f => pattern.test(f));
+        return {
+            kind: has(/bert/i) ? 'embedding' : undefined,
+            vision: has(/clip|mllama/i) ? true : undefined,
+        };
+    }
+
+    /**
+     * Download a model through `/api/pull`, yielding progress as it streams.
+     * Throws with Ollama's message when the pull fails.
+     */
+    static async *pullModel(baseUrl: string | undefined, model: string, signal?: AbortSignal): AsyncGenerator<PullProgress> {
+        const response = await fetch(`${OllamaProvider.resolveBaseUrl(baseUrl)}/api/pull`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model, stream: true }),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            const data: any = await response.json().catch(() => null);
+            throw Object.assign(new Error(data?.error || `Pull failed: HTTP ${response.status}`), { status: response.status });
+        }
+
+        for await (const line of readLines(response.body)) {
+            if (!line.trim()) continue;
+            const data: any = JSON.parse(line);
+            if (data?.error) throw new Error(String(data.error));
+            yield { status: data.status || '', completed: data.completed, total: data.total };
+            if (data.status === 'success') return;
+        }
+        throw new Error(`Pull of ${model} ended before it finished`);
+    }
+
+    static async deleteModel(baseUrl: string | undefined, model: string): Promise<void> {
+        const response = await fetch(`${OllamaProvider.resolveBaseUrl(baseUrl)}/api/delete`, {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model }),
+        });
+        if (!response.ok) {
+            const data: any = await response.json().catch(() => null);
+            throw Object.assign(new Error(data?.error || `Delete failed: HTTP ${response.status}`), { status: response.status });
+        }
     }
 
-    private static fallbackModels(): any[] {
+    /** Shown when the server cannot be reached, and offered for download in the model picker */
+    static fallbackModels(): any[] {
         return [
             { id: 'qwen2.5-coder:32b', contextWindow: 131072 },
             { id: 'qwen2.5-coder:7b', contextWindow: 131072 },
@@ -93,6 +219,7 @@ export class OllamaProvider extends BaseProvider {
                     model: this.model || DEFAULT_MODEL,
                     messages: msgs,
                     stream: false,
+                    ...OllamaProvider.requestOptions(this.options),
                 })
             });
 
@@ -106,14 +233,15 @@ export class OllamaProvider extends BaseProvider {
         }
     }
 
-    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+    private buildRequest(messages: Message[], tools: ToolDefinition[], system?: string, stream: boolean = false) {
         const ollamaMessages: any[] = [];
 
         if (system) {
             ollamaMessages.push({ role: 'system', content: system });
         }
 
-        for (const msg of messages) {
+        // Images read by tools go back in a user message; Ollama's chat templates ignore them on tool messages
+        for (const msg of moveToolImagesToUser(messages)) {
             if (msg.role === 'tool') {
                 ollamaMessages.push({
                     role: 'tool',
@@ -132,38 +260,85 @@ export class OllamaProvider extends BaseProvider {
                 }
                 ollamaMessages.push(parts);
             } else {
-                ollamaMessages.push({ role: msg.role, content: msg.content });
+                ollamaMessages.push({
+                    role: msg.role,
+                    content: msg.content,
+                    ...(msg.images?.length ? { images: msg.images.map(image => image.data) } : {}),
+                });
             }
         }
 
-        try {
-            const ollamaTools = tools.map(t => ({
-                type: 'function',
-                function: {
-                    name: t.name,
-                    description: t.description,
-                    parameters: t.parameters
-                }
-            }));
-
-            const controller = new AbortController();
-            if (signal) {
-                signal.addEventListener('abort', () => controller.abort());
+        const ollamaTools = tools.map(t => ({
+            type: 'function',
+            function: {
+                name: t.name,
+                description: t.description,
+                parameters: t.parameters
             }
+        }));
 
-            const response = await fetch(`${this.baseUrl}/api/chat`, {
+        return {
+            model: this.model || DEFAULT_MODEL,
+            messages: ollamaMessages,
+            tools: ollamaTools,
+            stream,
+            ...OllamaProvider.requestOptions(this.options),
+            ...OllamaProvider.thinkOption(reasoningEffort(this), this.model || DEFAULT_MODEL),
+        };
+    }
+
+    // `think` is true/false, or a level for gpt-oss; models without thinking reject it, so it is only sent when configured
+    private static thinkOption(effort: ReasoningEffort | undefined, model: string): { think?: boolean | string } {
+        if (!effort) return {};
+        if (effort === 'off') return { think: false };
+        return { think: /gpt-oss/i.test(model) ? effort : true };
+    }
+
+    private parseToolCalls(toolCalls: any[], offset: number = 0): ToolCall[] {
+        return toolCalls.map((tc: any, i: number) => ({
+            id: `ollama_tc_${Date.now()}_${offset + i}`,
+            name: tc.function.name,
+            arguments: typeof tc.function.arguments === 'string'
+                ? JSON.parse(tc.function.arguments)
+                : tc.function.arguments
+        }));
+    }
+
+    private errorResponse(error: any, signal?: AbortSignal): ChatResponse {
+        if (error?.name === 'AbortError' || signal?.aborted) {
+            return { type: 'error', content: 'Request cancelled by user.' };
+        }
+        return {
+            type: 'error',
+            status: error?.status,
+            content: error?.message || 'Unknown error during Ollama API call'
+        };
+    }
+
+    /** Counts from the final (`done`) object; Ollama has no prompt cache accounting */
+    private extractUsage(data: any): TokenUsage | undefined {
+        if (data?.prompt_eval_count === undefined && data?.eval_count === undefined) return undefined;
+        return {
+            promptTokens: data.prompt_eval_count || 0,
+            completionTokens: data.eval_count || 0,
+            cachedTokens: 0,
+        };
+    }
+
+    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+        try {
+            const { response, done } = await OllamaProvider.scheduler.fetch(`${this.baseUrl}/api/chat`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: this.model || DEFAULT_MODEL,
-                    messages: ollamaMessages,
-                    tools: ollamaTools,
-                    stream: false,
-                }),
-                signal: controller.signal,
-            });
+                body: JSON.stringify(this.buildRequest(messages, tools, system)),
+            }, { signal, maxRetries: this.maxRetries });
 
-            const data: any = await response.json();
+            let data: any;
+            try {
+                data = await response.json();
+            } finally {
+                done();
+            }
             const message = data?.message;
 
             if (!message) {
@@ -173,30 +348,76 @@ export class OllamaProvider extends BaseProvider {
             if (message.tool_calls && message.tool_calls.length > 0) {
                 return {
                     type: 'tool_use',
-                    content: message.content || '',
-                    tool_calls: message.tool_calls.map((tc: any, i: number) => ({
-                        id: `ollama_tc_${Date.now()}_${i}`,
-                        name: tc.function.name,
-                        arguments: typeof tc.function.arguments === 'string'
-                            ? JSON.parse(tc.function.arguments)
-                            : tc.function.arguments
-                    }))
+                    ...splitReasoning(message.content || '', message.thinking),
+                    tool_calls: this.parseToolCalls(message.tool_calls),
+                    usage: this.extractUsage(data)
                 };
             }
 
             return {
                 type: 'text',
-                content: message.content || ''
+                ...splitReasoning(message.content || '', message.thinking),
+                usage: this.extractUsage(data)
             };
 
         } catch (error: any) {
-            if (error?.name === 'AbortError' || signal?.aborted) {
-                return { type: 'error', content: 'Request cancelled by user.' };
+            return this.errorResponse(error, signal);
+        }
+    }
+
+    /** Streams `/api/chat` NDJSON: one JSON object per line, the last with `done: true` */
+    async *streamWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+        try {
+            const { response, done } = await OllamaProvider.scheduler.fetch(`${this.baseUrl}/api/chat`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(this.buildRequest(messages, tools, system, true)),
+            }, { signal, maxRetries: this.maxRetries });
+
+            let usage: TokenUsage | undefined;
+            const toolCalls: ToolCall[] = [];
+            // Thinking arrives in `thinking` when requested, otherwise inline in <think> tags
+            const splitter = new ReasoningSplitter();
+
+            try {
+                for await (const line of readLines(response.body!)) {
+                    if (!line.trim()) continue;
+                    const data: any = JSON.parse(line);
+                    if (data?.error) {
+                        yield { type: 'done', response: { type: 'error', content: String(data.error) } };
+                        return;
+                    }
+
+                    const message = data?.message;
+                    if (message?.thinking) yield* splitter.pushReasoning(message.thinking);
+                    if (message?.content) yield* splitter.pushText(message.content);
+                    // Ollama sends each tool call complete, never in fragments
+                    if (message?.tool_calls?.length) {
+                        for (const call of this.parseToolCalls(message.tool_calls, toolCalls.length)) {
+                            yield { type: 'tool_call', index: toolCalls.length, id: call.id, name: call.name, arguments: JSON.stringify(call.arguments) };
+                            toolCalls.push(call);
+                        }
+                    }
+                    if (data?.done) {
+                        usage = this.extractUsage(data);
+                        break;
+                    }
+                }
+            } finally {
+                done();
             }
-            return {
-                type: 'error',
-                content: error?.message || 'Unknown error during Ollama API call'
+            yield* splitter.end();
+
+            const { content } = splitter;
+            const reasoning = splitter.reasoning || undefined;
+            yield {
+                type: 'done',
+                response: toolCalls.length > 0
+                    ? { type: 'tool_use', content, reasoning, tool_calls: toolCalls, usage }
+                    : { type: 'text', content, reasoning, usage },
             };
+        } catch (error: any) {
+            yield { type: 'done', response: this.errorResponse(error, signal) };
         }
     }
 }
@@ -0,0 +1,231 @@
+
+import { BaseProvider } from './base';
+import { Message, ToolDefinition, ChatResponse, StreamEvent } from '../core/types';
+import { streamOpenAIChunks, openAIUsage, openAIReasoning } from './streaming';
+import { reasoningEffort, splitReasoning } from '../core/reasoning';
+import { moveToolImagesToUser, toOpenAIContent } from '../core/images';
+import { RequestScheduler, estimateRequestTokens } from './scheduler';
+import OpenAI from 'openai';
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Any server speaking the OpenAI chat completions API: vLLM, LM Studio,
+ * llama.cpp server, LocalAI, internal gateways.  The base URL comes from
+ * config; the API key and extra headers are optional.
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+    // Gateways in front of hosted models often send the same rate limit headers as Groq
+    private static scheduler = new RequestScheduler({ name: 'OpenAI-compatible server', tokenAware: true });
+    client: OpenAI;
+    baseUrl: string;
+    headers: Record<string, string>;
+
+    constructor(apiKey: string | undefined, model: string | undefined, baseUrl: string, headers: Record<string, string> = {}) {
+        super(apiKey, model);
+        if (!baseUrl) throw new Error('OpenAI-compatible base URL required');
+        this.baseUrl = OpenAICompatibleProvider.normalizeBaseUrl(baseUrl);
+        this.headers = headers;
+        this.client = new OpenAI({
+            // The SDK insists on a key; local servers ignore the Authorization header
+            apiKey: apiKey || 'not-needed',
+            baseURL: this.baseUrl,
+            // Retries go through the scheduler
+            maxRetries: 0,
+            defaultHeaders: headers,
+        });
+    }
+
+    get name(): string {
+        return 'OpenAI-Compatible';
+    }
+
+    /** Trim trailing slashes and add `/v1` unless the URL already ends in a version segment */
+    static normalizeBaseUrl(url: string): string {
+        const trimmed = url.trim().replace(/\/+$/, '');
+        return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+    }
+
+    private static requestHeaders(apiKey?: string, headers: Record<string, string> = {}): Record<string, string> {
+        return apiKey ? { 'Authorization': `Bearer ${apiKey}`, ...headers } : { ...headers };
+    }
+
+    async validateConnection(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/models`, {
+                headers: OpenAICompatibleProvider.requestHeaders(this.apiKey, this.headers)
+            });
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    // Rate limits vary by server and are rarely advertised
+    static async probeRateLimit(_apiKey: string, _model: string): Promise<number | null> {
+        return null;
+    }
+
+    /**
+     * List models from `/v1/models`.  There is no sensible fallback list for an
+     * arbitrary server, so failures are thrown for Setup to show.
+     */
+    static async fetchModels(apiKey: string, baseUrl?: string, headers: Record<string, string> = {}): Promise<any[]> {
+        if (!baseUrl) throw new Error('No base URL configured');
+        const url = `${OpenAICompatibleProvider.normalizeBaseUrl(baseUrl)}/models`;
+        let response: Response;
+        try {
+            response = await fetch(url, { headers: OpenAICompatibleProvider.requestHeaders(apiKey, headers) });
+        } catch (err: any) {
+            throw new Error(`Cannot reach ${url}: ${err?.cause?.code || err?.cause?.message || err?.message || err}`);
+        }
+        if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`);
+
+        const data: any = await response.json().catch(() => null);
+        if (!Array.isArray(data?.data)) throw new Error(`${url} did not return a model list`);
+
+        return data.data.map((m: any) => ({
+            id: m.id,
+            // vLLM reports max_model_len; other servers use their own field names
+            contextWindow: m.max_model_len || m.context_length || m.context_window || DEFAULT_CONTEXT_WINDOW,
+            name: m.id,
+        })).sort((a: any, b: any) => a.id.localeCompare(b.id));
+    }
+
+    async chat(message: string, onStream?: (chunk: string) => void): Promise<string> {
+        try {
+            const msgs: any[] = [];
+            if (this.systemPrompt) msgs.push({ role: 'system', content: this.systemPrompt });
+            msgs.push({ role: 'user', content: message });
+
+            const response = await this.client.chat.completions.create({
+                model: this.model || '',
+                messages: msgs,
+            });
+
+            const content = response.choices[0]?.message?.content || '';
+            this.addMessage('user', message);
+            this.addMessage('assistant', content);
+            return content;
+        } catch (error: any) {
+            throw new Error(error?.message || 'OpenAI-compatible chat error');
+        }
+    }
+
+    private buildRequest(messages: Message[], tools: ToolDefinition[], system?: string) {
+        const effort = reasoningEffort(this);
+        const openaiMessages: any[] = [];
+
+        if (system) {
+            openaiMessages.push({ role: 'system', content: system });
+        }
+
+        // Tool messages are text only; images read by tools follow them as a user message
+        for (const msg of moveToolImagesToUser(messages)) {
+            if (msg.role === 'tool') {
+                openaiMessages.push({
+                    role: 'tool',
+                    tool_call_id: msg.tool_call_id,
+                    content: msg.content
+                });
+            } else if (msg.role === 'assistant') {
+                const parts: any = { role: 'assistant', content: msg.content || null };
+                if (msg.tool_calls) {
+                    parts.tool_calls = msg.tool_calls.map(tc => ({
+                        id: tc.id,
+                        type: 'function',
+                        function: {
+                            name: tc.name,
+                            arguments: JSON.stringify(tc.arguments)
+                        }
+                    }));
+                }
+                openaiMessages.push(parts);
+            } else {
+                openaiMessages.push({ role: msg.role, content: toOpenAIContent(msg) });
+            }
+        }
+
+        const toolsConfig = tools.map(t => ({
+            type: 'function',
+            function: {
+                name: t.name,
+                description: t.description,
+                parameters: t.parameters
+            }
+        }));
+
+        return {
+            model: this.model || '',
+            messages: openaiMessages as any,
+            tools: toolsConfig as any,
+            tool_choice: 'auto' as const,
+            ...(effort ? { reasoning_effort: (effort === 'off' ? 'none' : effort) as any } : {})
+        };
+    }
+
+    private errorResponse(error: any, signal?: AbortSignal): ChatResponse {
+        if (error?.name === 'AbortError' || signal?.aborted) {
+            return { type: 'error', content: 'Request cancelled by user.' };
+        }
+        return {
+            type: 'error',
+            status: error?.status,
+            content: error?.message || `Unknown error calling ${this.baseUrl}`
+        };
+    }
+
+    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, tools, system);
+            const { value, done } = await OpenAICompatibleProvider.scheduler.schedule(
+                requestSignal => this.client.chat.completions.create(request, { signal: requestSignal }).withResponse(),
+                { signal, tokens: estimateRequestTokens(request), maxRetries: this.maxRetries }
+            );
+            done();
+            OpenAICompatibleProvider.scheduler.observe(value.response.headers);
+            const response = value.data;
+
+            const message = response.choices[0]?.message;
+            if (message?.tool_calls?.length) {
+                return {
+                    type: 'tool_use',
+                    ...splitReasoning(message.content || '', openAIReasoning(message)),
+                    tool_calls: message.tool_calls.map((tc, i) => ({
+                        // Some local servers omit tool call ids
+                        id: tc.id || `compat_tc_${Date.now()}_${i}`,
+                        name: tc.function.name,
+                        arguments: tc.function.arguments ? JSON.parse(tc.function.arguments) : {}
+                    })),
+                    usage: openAIUsage(response.usage)
+                };
+            }
+
+            return {
+                type: 'text',
+                ...splitReasoning(message?.content || '', openAIReasoning(message)),
+                usage: openAIUsage(response.usage)
+            };
+        } catch (error: any) {
+            return this.errorResponse(error, signal);
+        }
+    }
+
+    async *streamWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+        try {
+            const request = this.buildRequest(messages, tools, system);
+            const { value, done } = await OpenAICompatibleProvider.scheduler.schedule(
+                requestSignal => this.client.chat.completions.create({ ...request, stream: true, stream_options: { include_usage: true } }, { signal: requestSignal }).withResponse(),
+                { signal, tokens: estimateRequestTokens(request), maxRetries: this.maxRetries }
+            );
+            OpenAICompatibleProvider.scheduler.observe(value.response.headers);
+            try {
+                yield* streamOpenAIChunks(value.data, 'compat_tc');
+            } finally {
+                done();
+            }
+        } catch (error: any) {
+            yield { type: 'done', response: this.errorResponse(error, signal) };
+        }
+    }
+}
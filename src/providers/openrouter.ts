@@ -1,11 +1,16 @@
 
 import { BaseProvider } from './base';
-import { Message, ToolDefinition, ChatResponse } from '../core/types';
+import { Message, ToolDefinition, ChatResponse, StreamEvent, ModelPrice, ModelCapabilities } from '../core/types';
+import { streamOpenAIChunks, openAIUsage, openAIReasoning } from './streaming';
+import { reasoningEffort, splitReasoning } from '../core/reasoning';
+import { moveToolImagesToUser, toOpenAIContent } from '../core/images';
+import { RequestScheduler, estimateRequestTokens } from './scheduler';
 import OpenAI from 'openai';
 
 const DEFAULT_MODEL = 'anthropic/claude-3.5-sonnet';
 
 export class OpenRouterProvider extends BaseProvider {
+    private static scheduler = new RequestScheduler({ name: 'OpenRouter' });
     client: OpenAI;
 
     constructor(apiKey?: string, model: string = DEFAULT_MODEL) {
@@ -14,6 +19,8 @@ export class OpenRouterProvider extends BaseProvider {
         this.client = new OpenAI({
             apiKey,
             baseURL: 'https://openrouter.ai/api/v1',
+            // Retries go through the scheduler
+            maxRetries: 0,
             defaultHeaders: {
                 'HTTP-Referer': 'https://cloudecode.dev',
                 'X-Title': 'Cloudé Code',
@@ -60,7 +67,8 @@ export class OpenRouterProvider extends BaseProvider {
                     id: m.id,
                     name: m.name || m.id,
                     contextWindow: m.context_length || 8192,
-                    pricing: m.pricing,
+                    price: OpenRouterProvider.toPrice(m.pricing),
+                    capabilities: OpenRouterProvider.toCapabilities(m),
                 }))
                 .sort((a: any, b: any) => a.id.localeCompare(b.id));
         } catch {
@@ -68,6 +76,31 @@ export class OpenRouterProvider extends BaseProvider {
         }
     }
 
+    /** `supported_parameters` lists what the model's endpoints accept, e.g. `tools`, `reasoning` */
+    private static toCapabilities(m: any): ModelCapabilities {
+        const params: string[] | undefined = Array.isArray(m.supported_parameters) ? m.supported_parameters : undefined;
+        const inputs: string[] | undefined = m.architecture?.input_modalities;
+        return {
+            tools: params ? params.includes('tools') : undefined,
+            reasoning: params ? params.includes('reasoning') || params.includes('include_reasoning') : undefined,
+            vision: inputs ? inputs.includes('image') : undefined,
+            maxOutput: m.top_provider?.max_completion_tokens || undefined,
+        };
+    }
+
+    /** OpenRouter quotes USD per token as strings; the router models quote -1 */
+    private static toPrice(pricing: any): ModelPrice | undefined {
+        const input = Number(pricing?.prompt);
+        const output = Number(pricing?.completion);
+        if (!(input >= 0) || !(output >= 0)) return undefined;
+        const cachedInput = Number(pricing?.input_cache_read);
+        return {
+            input: input * 1_000_000,
+            output: output * 1_000_000,
+            ...(cachedInput >= 0 && pricing?.input_cache_read !== undefined ? { cachedInput: cachedInput * 1_000_000 } : {}),
+        };
+    }
+
     private static fallbackModels(): any[] {
         return [
             { id: 'anthropic/claude-3.5-sonnet', contextWindow: 200000 },
@@ -102,14 +135,16 @@ export class OpenRouterProvider extends BaseProvider {
         }
     }
 
-    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+    private buildRequest(messages: Message[], tools: ToolDefinition[], system?: string) {
+        const effort = reasoningEffort(this);
         const openaiMessages: any[] = [];
 
         if (system) {
             openaiMessages.push({ role: 'system', content: system });
         }
 
-        for (const msg of messages) {
+        // Tool messages are text only; images read by tools follow them as a user message
+        for (const msg of moveToolImagesToUser(messages)) {
             if (msg.role === 'tool') {
                 openaiMessages.push({
                     role: 'tool',
@@ -131,26 +166,50 @@ export class OpenRouterProvider extends BaseProvider {
                 }
                 openaiMessages.push(parts);
             } else {
-                openaiMessages.push({ role: msg.role, content: msg.content });
+                openaiMessages.push({ role: msg.role, content: toOpenAIContent(msg) });
             }
         }
 
-        try {
-            const toolsConfig = tools.map(t => ({
-                type: 'function',
-                function: {
-                    name: t.name,
-                    description: t.description,
-                    parameters: t.parameters
-                }
-            }));
+        const toolsConfig = tools.map(t => ({
+            type: 'function',
+            function: {
+                name: t.name,
+                description: t.description,
+                parameters: t.parameters
+            }
+        }));
 
-            const response = await this.client.chat.completions.create({
-                model: this.model || DEFAULT_MODEL,
-                messages: openaiMessages as any,
-                tools: toolsConfig as any,
-                tool_choice: 'auto'
-            }, signal ? { signal } : undefined);
+        return {
+            model: this.model || DEFAULT_MODEL,
+            messages: openaiMessages as any,
+            tools: toolsConfig as any,
+            tool_choice: 'auto' as const,
+            ...(effort ? { reasoning: effort === 'off' ? { enabled: false } : { effort } } : {})
+        };
+    }
+
+    private errorResponse(error: any, signal?: AbortSignal): ChatResponse {
+        // Detect user-initiated abort
+        if (error?.name === 'AbortError' || signal?.aborted) {
+            return { type: 'error', content: 'Request cancelled by user.' };
+        }
+        return {
+            type: 'error',
+            status: error?.status,
+            content: error?.message || 'Unknown error during OpenRouter API call'
+        };
+    }
+
+    async chatWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, tools, system);
+            const { value, done } = await OpenRouterProvider.scheduler.schedule(
+                requestSignal => this.client.chat.completions.create(request, { signal: requestSignal }).withResponse(),
+                { signal, tokens: estimateRequestTokens(request), maxRetries: this.maxRetries }
+            );
+            done();
+            OpenRouterProvider.scheduler.observe(value.response.headers);
+            const response = value.data;
 
             const choice = response.choices[0];
             const message = choice.message;
@@ -158,28 +217,42 @@ export class OpenRouterProvider extends BaseProvider {
             if (message.tool_calls) {
                 return {
                     type: 'tool_use',
-                    content: message.content || '',
+                    ...splitReasoning(message.content || '', openAIReasoning(message)),
                     tool_calls: message.tool_calls.map(tc => ({
                         id: tc.id,
                         name: tc.function.name,
                         arguments: JSON.parse(tc.function.arguments)
-                    }))
+                    })),
+                    usage: openAIUsage(response.usage)
                 };
             }
 
             return {
                 type: 'text',
-                content: message.content || ''
+                ...splitReasoning(message.content || '', openAIReasoning(message)),
+                usage: openAIUsage(response.usage)
             };
 
         } catch (error: any) {
-            if (error?.name === 'AbortError' || signal?.aborted) {
-                return { type: 'error', content: 'Request cancelled by user.' };
+            return this.errorResponse(error, signal);
+        }
+    }
+
+    async *streamWithTools(messages: Message[], tools: ToolDefinition[], system?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+        try {
+            const request = this.buildRequest(messages, tools, system);
+            const { value, done } = await OpenRouterProvider.scheduler.schedule(
+                requestSignal => this.client.chat.completions.create({ ...request, stream: true, stream_options: { include_usage: true } }, { signal: requestSignal }).withResponse(),
+                { signal, tokens: estimateRequestTokens(request), maxRetries: this.maxRetries }
+            );
+            OpenRouterProvider.scheduler.observe(value.response.headers);
+            try {
+                yield* streamOpenAIChunks(value.data, 'openrouter_tc');
+            } finally {
+                done();
             }
-            return {
-                type: 'error',
-                content: error?.message || 'Unknown error during OpenRouter API call'
-            };
+        } catch (error: any) {
+            yield { type: 'done', response: this.errorResponse(error, signal) };
         }
     }
 }
@@ -0,0 +1,179 @@
+
+import path from 'path';
+import { ProviderConfig } from '../core/types';
+import { BaseProvider } from './base';
+import { GroqProvider } from './groq';
+import { OpenRouterProvider } from './openrouter';
+import { GoogleAIStudioProvider } from './googleaistudio';
+import { AnthropicProvider } from './anthropic';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openaicompatible';
+
+/**
+ * Everything the app needs to know about a provider: how Setup presents it,
+ * where its key comes from, and how to build and query it.  Built-in
+ * providers are registered below; third-party ones are loaded from the
+ * modules listed under `providerModules` in config.json.
+ */
+export interface ProviderDefinition {
+    /** Key under `providers` in config.json */
+    id: string;
+    name: string;
+    /** One-line description shown in the Setup provider list */
+    description: string;
+    color?: string;
+    needsKey: boolean;
+    /** Ask for a base URL during setup */
+    needsUrl?: boolean;
+    /** Environment variable the API key can come from */
+    envVar?: string;
+    keyUrl?: string;
+    keyPlaceholder?: string;
+    defaultModel?: string;
+    /** Shown when validateConnection fails; defaults to an invalid-key message */
+    connectionHint?: string;
+    create(conf: ProviderConfig): BaseProvider;
+    fetchModels(conf: ProviderConfig): Promise<any[]>;
+    /** Tokens-per-minute limit for the model, when the provider advertises one */
+    probeRateLimit?(conf: ProviderConfig, model: string): Promise<number | null>;
+    /** Defaults to `create(conf).validateConnection()` */
+    validateConnection?(conf: ProviderConfig): Promise<boolean>;
+}
+
+export type RegisteredProvider = ProviderDefinition & Required<Pick<ProviderDefinition, 'probeRateLimit' | 'validateConnection'>>;
+
+const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+    {
+        id: 'groq',
+        name: 'Groq',
+        description: 'Fast inference — requires API key',
+        color: '#F55036',
+        needsKey: true,
+        envVar: 'GROQ_API_KEY',
+        keyUrl: 'https://console.groq.com/keys',
+        keyPlaceholder: 'gsk_...',
+        defaultModel: 'qwen-2.5-coder-32b',
+        create: conf => new GroqProvider(conf.apiKey, conf.model),
+        fetchModels: conf => GroqProvider.fetchModels(conf.apiKey || ''),
+        probeRateLimit: (conf, model) => GroqProvider.probeRateLimit(conf.apiKey || '', model),
+    },
+    {
+        id: 'openrouter',
+        name: 'OpenRouter',
+        description: 'Multi-model gateway — requires API key',
+        color: '#6366F1',
+        needsKey: true,
+        envVar: 'OPENROUTER_API_KEY',
+        keyUrl: 'https://openrouter.ai/keys',
+        keyPlaceholder: 'sk-or-...',
+        defaultModel: 'anthropic/claude-3.5-sonnet',
+        create: conf => new OpenRouterProvider(conf.apiKey, conf.model),
+        fetchModels: conf => OpenRouterProvider.fetchModels(conf.apiKey || ''),
+        probeRateLimit: (conf, model) => OpenRouterProvider.probeRateLimit(conf.apiKey || '', model),
+    },
+    {
+        id: 'googleaistudio',
+        name: 'Google AI Studio',
+        description: 'Gemma/Gemini models — requires API key',
+        color: '#87CEEB',
+        needsKey: true,
+        envVar: 'GOOGLE_AI_STUDIO_API_KEY',
+        keyUrl: 'https://aistudio.google.com/app/apikey',
+        keyPlaceholder: 'AIza...',
+        defaultModel: 'gemini-1.5-flash',
+        create: conf => new GoogleAIStudioProvider(conf.apiKey, conf.model),
+        fetchModels: conf => GoogleAIStudioProvider.fetchModels(conf.apiKey || ''),
+        probeRateLimit: (conf, model) => GoogleAIStudioProvider.probeRateLimit(conf.apiKey || '', model),
+    },
+    {
+        id: 'anthropic',
+        name: 'Anthropic',
+        description: 'Claude models via the Messages API — requires API key',
+        color: '#D97757',
+        needsKey: true,
+        envVar: 'ANTHROPIC_API_KEY',
+        keyUrl: 'https://console.anthropic.com/settings/keys',
+        keyPlaceholder: 'sk-ant-...',
+        defaultModel: 'claude-sonnet-4-5',
+        create: conf => new AnthropicProvider(conf.apiKey, conf.model, conf.baseUrl),
+        fetchModels: conf => AnthropicProvider.fetchModels(conf.apiKey || '', conf.baseUrl),
+        probeRateLimit: (conf, model) => AnthropicProvider.probeRateLimit(conf.apiKey || '', model, conf.baseUrl),
+    },
+    {
+        id: 'ollama',
+        name: 'Ollama',
+        description: 'Local models — no API key needed',
+        color: '#FFFFFF',
+        needsKey: false,
+        defaultModel: 'qwen2.5-coder:32b',
+        connectionHint: 'Is it running? (ollama serve)',
+        create: conf => new OllamaProvider(conf.apiKey, conf.model, conf.baseUrl, conf.options, conf.contextWindow),
+        fetchModels: conf => OllamaProvider.fetchModels('', conf.baseUrl),
+    },
+    {
+        id: 'openai-compatible',
+        name: 'OpenAI-Compatible',
+        description: 'vLLM, LM Studio, llama.cpp, LocalAI or a gateway — base URL',
+        color: '#10A37F',
+        needsKey: false,
+        needsUrl: true,
+        keyPlaceholder: 'optional — press Enter to skip',
+        connectionHint: 'Check the base URL and API key.',
+        create: conf => {
+            if (!conf.baseUrl) throw new Error('OpenAI-compatible base URL not configured. Please run setup first.');
+            return new OpenAICompatibleProvider(conf.apiKey, conf.model, conf.baseUrl, conf.headers);
+        },
+        fetchModels: conf => OpenAICompatibleProvider.fetchModels(conf.apiKey || '', conf.baseUrl, conf.headers),
+    },
+];
+
+export class ProviderRegistry {
+    private providers = new Map<string, RegisteredProvider>();
+    /** Problems loading third-party provider modules, shown in Setup */
+    loadErrors: string[] = [];
+
+    register(definition: ProviderDefinition) {
+        if (!definition?.id || !definition.name || typeof definition.create !== 'function' || typeof definition.fetchModels !== 'function') {
+            throw new Error('A provider needs id, name, create() and fetchModels()');
+        }
+        if (this.providers.has(definition.id)) {
+            throw new Error(`Provider "${definition.id}" is already registered`);
+        }
+        this.providers.set(definition.id, {
+            ...definition,
+            probeRateLimit: definition.probeRateLimit ?? (async () => null),
+            validateConnection: definition.validateConnection ?? (conf => definition.create(conf).validateConnection()),
+        });
+    }
+
+    get(id: string): RegisteredProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    list(): RegisteredProvider[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Register providers from local modules.  A module exports a
+     * ProviderDefinition (or an array of them) as `module.exports` or
+     * `default`.  Relative paths resolve against `baseDir`.
+     */
+    loadModules(modulePaths: string[], baseDir: string) {
+        for (const modulePath of modulePaths) {
+            try {
+                const loaded = require(path.resolve(baseDir, modulePath));
+                const exported = loaded?.default ?? loaded;
+                for (const definition of Array.isArray(exported) ? exported : [exported]) {
+                    this.register(definition);
+                }
+            } catch (err: any) {
+                // Keep the first line; require errors append the whole require stack
+                this.loadErrors.push(`${modulePath}: ${String(err?.message || err).split('\n')[0]}`);
+            }
+        }
+    }
+}
+
+export const providerRegistry = new ProviderRegistry();
+BUILTIN_PROVIDERS.forEach(p => providerRegistry.register(p));
@@ -0,0 +1,290 @@
+
+/**
+ * Request scheduling shared by the providers: an optional queue with
+ * minimum spacing between requests, per-attempt timeouts, and retries with
+ * exponential backoff, jitter and `Retry-After`.
+ *
+ * With `tokenAware` the scheduler also tracks the provider's token budget
+ * from `x-ratelimit-remaining-tokens` / `x-ratelimit-reset-tokens` and waits
+ * for the window to reset rather than sending a request that cannot fit.
+ */
+
+export interface SchedulerOptions {
+    /** Provider name used in error messages */
+    name: string;
+    /** Retries after the first attempt */
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Minimum gap between request starts; when set, requests also run one at a time */
+    minSpacingMs?: number;
+    /** Abort an attempt whose response headers take longer than this */
+    timeoutMs?: number;
+    tokenAware?: boolean;
+    /** Longest pre-emptive wait for the token window to reset */
+    maxTokenWaitMs?: number;
+}
+
+export interface ScheduleOptions {
+    signal?: AbortSignal;
+    /** Estimated request size, for token-aware scheduling */
+    tokens?: number;
+    /** Overrides the scheduler's retry count for this request */
+    maxRetries?: number;
+}
+
+const DEFAULTS = {
+    maxRetries: 4,
+    baseDelayMs: 750,
+    maxDelayMs: 8000,
+    minSpacingMs: 0,
+    timeoutMs: 120000,
+    tokenAware: false,
+    maxTokenWaitMs: 60000,
+};
+
+export function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/** Rough token count of a request body: about four characters per token */
+export function estimateRequestTokens(body: unknown): number {
+    return Math.ceil(JSON.stringify(body ?? '').length / 4);
+}
+
+/** Read a header from a fetch Headers object or a plain record (OpenAI SDK errors) */
+function headerValue(headers: any, name: string): string | null {
+    if (!headers) return null;
+    if (typeof headers.get === 'function') return headers.get(name);
+    return headers[name] ?? headers[name.toLowerCase()] ?? null;
+}
+
+/** Seconds (`12`) or an HTTP date */
+export function parseRetryAfterMs(headers: any): number | null {
+    const retryAfter = headerValue(headers, 'retry-after');
+    if (!retryAfter) return null;
+
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return null;
+}
+
+/** Durations in rate limit headers: `7.66s`, `2m59.56s`, `1h2m`, `250ms` */
+export function parseDurationMs(value: string | null): number | null {
+    if (!value) return null;
+    if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * 1000;
+
+    let total = 0;
+    let matched = false;
+    const unitMs: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+    for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+        total += Number(amount) * unitMs[unit];
+        matched = true;
+    }
+    return matched ? total : null;
+}
+
+export function abortError(): Error {
+    const error = new Error('Request cancelled by user.');
+    error.name = 'AbortError';
+    return error;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(abortError());
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export class RequestScheduler {
+    private options: typeof DEFAULTS & SchedulerOptions;
+    private queue: Promise<void> = Promise.resolve();
+    private lastRequestStartedAt = 0;
+    // Token window as of the last response
+    private tokenLimit?: number;
+    private remainingTokens?: number;
+    private tokensResetAt = 0;
+
+    constructor(options: SchedulerOptions) {
+        this.options = { ...DEFAULTS, ...options };
+    }
+
+    /**
+     * Run `send` with queueing, spacing and retries.  `send` gets a signal
+     * that aborts on cancel or timeout; it should resolve once response
+     * headers arrive and throw errors carrying `status` (and `headers`) for
+     * HTTP failures.  Call `done()` after consuming the body.
+     */
+    async schedule<T>(send: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<{ value: T; done: () => void }> {
+        const { signal, tokens } = options;
+        const { name } = this.options;
+        const maxRetries = options.maxRetries ?? this.options.maxRetries;
+
+        return this.runQueued(async () => {
+            await this.waitForTokens(tokens, signal);
+            let lastError: any;
+            let attempts = 0;
+
+            for (let attempt = 0; attempt <= maxRetries; attempt++) {
+                if (signal?.aborted) throw abortError();
+                attempts++;
+
+                const request = this.createRequestSignal(signal);
+                let opened = false;
+                try {
+                    this.lastRequestStartedAt = Date.now();
+                    const value = await send(request.signal);
+                    // The timeout guards the wait for headers; a stream may legitimately run longer
+                    opened = true;
+                    request.clearTimer();
+                    return { value, done: request.cleanup };
+                } catch (error: any) {
+                    if (signal?.aborted) throw abortError();
+                    this.observe(error?.headers);
+
+                    const status: number | undefined = error?.status;
+                    // Errors without a status are network failures or timeouts; both are worth retrying
+                    const retryable = status === undefined || isRetryableStatus(status);
+                    lastError = request.timedOut() ? new Error('request timed out') : error;
+
+                    if (!retryable || attempt === maxRetries) break;
+                    await sleep(this.retryDelayMs(attempt, error?.headers), signal);
+                } finally {
+                    if (!opened) request.cleanup();
+                }
+            }
+
+            const suffix = attempts > 1 ? ` after ${attempts} attempts` : '';
+            lastError.message = `${name} request failed${suffix}: ${lastError?.message || lastError}`;
+            throw lastError;
+        }, signal);
+    }
+
+    /**
+     * `fetch` through the scheduler.  Non-2xx responses become errors with
+     * `status`, `headers` and the response text as the message.
+     */
+    async fetch(url: string, init: RequestInit, options: ScheduleOptions = {}): Promise<{ response: Response; done: () => void }> {
+        const { value, done } = await this.schedule(async requestSignal => {
+            const response = await fetch(url, { ...init, signal: requestSignal });
+            this.observe(response.headers);
+            if (!response.ok) {
+                const text = await response.text().catch(() => '');
+                throw Object.assign(new Error(`${response.status} ${text}`.trim()), { status: response.status, headers: response.headers });
+            }
+            return response;
+        }, options);
+        return { response: value, done };
+    }
+
+    /** Update the token window from rate limit headers (token-aware schedulers only) */
+    observe(headers: any): void {
+        if (!this.options.tokenAware || !headers) return;
+
+        const limit = Number(headerValue(headers, 'x-ratelimit-limit-tokens'));
+        if (limit > 0) this.tokenLimit = limit;
+
+        const remaining = headerValue(headers, 'x-ratelimit-remaining-tokens');
+        if (remaining === null || Number.isNaN(Number(remaining))) return;
+        this.remainingTokens = Number(remaining);
+
+        const resetMs = parseDurationMs(headerValue(headers, 'x-ratelimit-reset-tokens'));
+        this.tokensResetAt = resetMs !== null ? Date.now() + resetMs : 0;
+    }
+
+    // Wait for the token window to reset when the request will not fit in what is left
+    private async waitForTokens(tokens: number | undefined, signal?: AbortSignal): Promise<void> {
+        if (!this.options.tokenAware || !tokens || this.remainingTokens === undefined) return;
+        if (tokens <= this.remainingTokens) {
+            this.remainingTokens -= tokens;
+            return;
+        }
+        // Larger than the whole window: waiting cannot help, let the request fail and the agent compact
+        if (this.tokenLimit && tokens > this.tokenLimit) return;
+
+        const waitMs = this.tokensResetAt - Date.now();
+        if (waitMs > 0) {
+            await sleep(Math.min(waitMs, this.options.maxTokenWaitMs), signal);
+        }
+        this.remainingTokens = undefined;
+    }
+
+    private retryDelayMs(attempt: number, headers?: any): number {
+        const { baseDelayMs, maxDelayMs } = this.options;
+        const retryAfter = parseRetryAfterMs(headers);
+        if (retryAfter !== null) return Math.min(retryAfter, maxDelayMs);
+
+        const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+        const jitter = Math.floor(Math.random() * 250);
+        return exponential + jitter;
+    }
+
+    private createRequestSignal(parent?: AbortSignal): { signal: AbortSignal; cleanup: () => void; clearTimer: () => void; timedOut: () => boolean } {
+        const controller = new AbortController();
+        let didTimeout = false;
+        const timeout = setTimeout(() => {
+            didTimeout = true;
+            controller.abort();
+        }, this.options.timeoutMs);
+
+        const onAbort = () => controller.abort();
+        parent?.addEventListener('abort', onAbort, { once: true });
+
+        return {
+            signal: controller.signal,
+            cleanup: () => {
+                clearTimeout(timeout);
+                parent?.removeEventListener('abort', onAbort);
+            },
+            clearTimer: () => clearTimeout(timeout),
+            timedOut: () => didTimeout,
+        };
+    }
+
+    // Requests run one at a time only when spacing is configured
+    private async runQueued<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (!this.options.minSpacingMs) return operation();
+
+        const previous = this.queue;
+        let release!: () => void;
+        this.queue = new Promise(resolve => {
+            release = resolve;
+        });
+
+        await previous.catch(() => undefined);
+
+        try {
+            if (signal?.aborted) throw abortError();
+            const elapsed = Date.now() - this.lastRequestStartedAt;
+            await sleep(Math.max(0, this.options.minSpacingMs - elapsed), signal);
+            return await operation();
+        } finally {
+            release();
+        }
+    }
+}
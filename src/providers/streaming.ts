@@ -0,0 +1,132 @@
+
+import { StreamEvent, ToolCall, TokenUsage } from '../core/types';
+import { ReasoningSplitter } from '../core/reasoning';
+
+/**
+ * Helpers shared by the providers' streamWithTools implementations:
+ * line framing for NDJSON / server-sent events, and assembly of tool calls
+ * that arrive in fragments.
+ */
+
+/** Split a fetch response body into lines */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                yield buffer.substring(0, newline).replace(/\r$/, '');
+                buffer = buffer.substring(newline + 1);
+            }
+        }
+        buffer += decoder.decode();
+        if (buffer) yield buffer;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/** Yield the data payload of each server-sent event, stopping at `[DONE]` */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    let data: string[] = [];
+    for await (const line of readLines(body)) {
+        if (line.startsWith('data:')) {
+            data.push(line.substring(5).replace(/^ /, ''));
+            continue;
+        }
+        // A blank line ends the event; comments and other fields are ignored
+        if (line === '' && data.length > 0) {
+            const payload = data.join('\n');
+            data = [];
+            if (payload === '[DONE]') return;
+            yield payload;
+        }
+    }
+    if (data.length > 0 && data.join('\n') !== '[DONE]') yield data.join('\n');
+}
+
+/**
+ * Collects OpenAI-style tool call deltas — `{ index, id?, function: { name?, arguments? } }`
+ * fragments — into complete calls.
+ */
+export class ToolCallAssembler {
+    private calls: { id?: string; name: string; arguments: string }[] = [];
+
+    get size(): number {
+        return this.calls.length;
+    }
+
+    /** Merge one fragment and return the call as assembled so far */
+    add(fragment: any): StreamEvent {
+        const index = typeof fragment?.index === 'number' ? fragment.index : this.calls.length;
+        const call = this.calls[index] ??= { name: '', arguments: '' };
+        if (fragment?.id) call.id = fragment.id;
+        if (fragment?.function?.name) call.name += fragment.function.name;
+        if (fragment?.function?.arguments) call.arguments += fragment.function.arguments;
+        return { type: 'tool_call', index, id: call.id, name: call.name, arguments: call.arguments };
+    }
+
+    /** Complete calls with parsed arguments. Throws if the arguments are not valid JSON. */
+    finish(idPrefix: string): ToolCall[] {
+        return this.calls.filter(Boolean).map((call, i) => ({
+            id: call.id || `${idPrefix}_${Date.now()}_${i}`,
+            name: call.name,
+            arguments: call.arguments.trim() ? JSON.parse(call.arguments) : {},
+        }));
+    }
+}
+
+/** OpenAI-style `usage` → TokenUsage */
+export function openAIUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.prompt_tokens || 0,
+        completionTokens: usage.completion_tokens || 0,
+        cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+    };
+}
+
+/** Reasoning sent beside the content: `reasoning` (OpenRouter, Groq) or `reasoning_content` (DeepSeek, vLLM) */
+export function openAIReasoning(message: any): string | undefined {
+    const reasoning = message?.reasoning ?? message?.reasoning_content;
+    return typeof reasoning === 'string' ? reasoning : undefined;
+}
+
+/**
+ * Turn an OpenAI-compatible chat completion stream (Groq, OpenRouter) into
+ * StreamEvents.  Usage arrives in a final chunk with no choices when the
+ * request sets `stream_options.include_usage`; Groq also sends it as `x_groq.usage`.
+ */
+export async function* streamOpenAIChunks(chunks: AsyncIterable<any>, idPrefix: string): AsyncGenerator<StreamEvent> {
+    let usage: TokenUsage | undefined;
+    const assembler = new ToolCallAssembler();
+    const splitter = new ReasoningSplitter();
+
+    for await (const chunk of chunks) {
+        usage = openAIUsage(chunk?.usage || chunk?.x_groq?.usage) ?? usage;
+        const delta = chunk?.choices?.[0]?.delta;
+        if (!delta) continue;
+        const reasoning = openAIReasoning(delta);
+        if (reasoning) yield* splitter.pushReasoning(reasoning);
+        if (delta.content) yield* splitter.pushText(delta.content);
+        for (const fragment of delta.tool_calls || []) {
+            yield assembler.add(fragment);
+        }
+    }
+
+    yield* splitter.end();
+
+    const { content } = splitter;
+    const reasoning = splitter.reasoning || undefined;
+    yield {
+        type: 'done',
+        response: assembler.size > 0
+            ? { type: 'tool_use', content, reasoning, tool_calls: assembler.finish(idPrefix), usage }
+            : { type: 'text', content, reasoning, usage },
+    };
+}
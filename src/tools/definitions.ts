@@ -2,13 +2,17 @@
 export const TOOLS = [
     {
         name: "read_file",
-        description: "Read the contents of a file at the given path. Returns file metadata and content.",
+        description: "Read the contents of a file at the given path. Returns file metadata and content. Files longer than 500 lines are paged automatically; use offset/limit to read a specific range. Pass 'paths' to read several files in one call. PNG, JPEG, GIF and WebP images are attached so you can see them, if the model accepts images; other binary files are summarised instead of dumped.",
         parameters: {
             type: "object",
             properties: {
-                path: { type: "string", description: "Absolute or relative path to the file" }
+                path: { type: "string", description: "Absolute or relative path to the file" },
+                paths: { type: "array", items: { type: "string" }, description: "Read several files at once instead of a single 'path'" },
+                offset: { type: "number", description: "1-based line number to start reading from (default 1)" },
+                limit: { type: "number", description: "Maximum number of lines to return (default 500)" },
+                line_numbers: { type: "boolean", description: "Prefix each line with its line number (default false). Do not copy the prefixes into edit_file." }
             },
-            required: ["path"]
+            required: []
         }
     },
     {
@@ -23,6 +27,30 @@ export const TOOLS = [
             required: ["path", "content"]
         }
     },
+    {
+        name: "edit_file",
+        description: "Make targeted edits to an existing file by replacing exact text. Prefer this over write_file when changing part of a file. Each edit's old_string must match the file exactly (including whitespace and indentation) and must be unique unless replace_all is true. Edits are applied in order; if any edit fails, the file is left unchanged.",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Absolute or relative path to the file" },
+                edits: {
+                    type: "array",
+                    description: "List of search/replace edits to apply in order",
+                    items: {
+                        type: "object",
+                        properties: {
+                            old_string: { type: "string", description: "Exact text to find. Include enough surrounding lines to make it unique." },
+                            new_string: { type: "string", description: "Text to replace it with" },
+                            replace_all: { type: "boolean", description: "Replace every occurrence instead of requiring a unique match (default false)" }
+                        },
+                        required: ["old_string", "new_string"]
+                    }
+                }
+            },
+            required: ["path", "edits"]
+        }
+    },
     {
         name: "list_dir",
         description: "List contents of a directory. Shows directories first (with trailing /), then files.",
@@ -34,6 +62,37 @@ export const TOOLS = [
             required: ["path"]
         }
     },
+    {
+        name: "find_files",
+        description: "Find files by glob pattern across the whole project tree in one call (read-only, no permission needed). Skips node_modules, .git, dist and anything in .gitignore. Patterns without a '/' match file names at any depth (e.g. '*.tsx'); patterns with a '/' match the path relative to the search directory (e.g. 'src/**/*.test.ts'). Results are sorted newest-first by default.",
+        parameters: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "Glob pattern, e.g. 'src/**/*.tsx', '*.json' or '**/{Dockerfile,*.yml}'. Separate multiple patterns with commas." },
+                path: { type: "string", description: "Directory to search from (default: current working directory)" },
+                sort: { type: "string", enum: ["mtime", "path"], description: "Sort by modification time (newest first, default) or alphabetically by path" },
+                max_results: { type: "number", description: "Maximum number of paths to return (default 200)" }
+            },
+            required: ["pattern"]
+        }
+    },
+    {
+        name: "search_code",
+        description: "Search file contents across the project with a regular expression (read-only, no permission needed). Respects .gitignore and skips node_modules, .git, dist and binary files. Returns matching lines as path:line: text. Use this instead of run_command with grep.",
+        parameters: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "JavaScript regular expression to search for (e.g. 'function\\s+handleSubmit')" },
+                path: { type: "string", description: "Directory or file to search in (default: current working directory)" },
+                include: { type: "array", items: { type: "string" }, description: "Only search files matching these globs (e.g. ['*.ts', 'src/**/*.tsx'])" },
+                exclude: { type: "array", items: { type: "string" }, description: "Skip files matching these globs" },
+                context: { type: "number", description: "Lines of context to show before and after each match (default 0, max 10)" },
+                max_results: { type: "number", description: "Stop after this many matching lines (default 100)" },
+                case_sensitive: { type: "boolean", description: "Set to false for a case-insensitive search (default true)" }
+            },
+            required: ["pattern"]
+        }
+    },
     {
         name: "run_command",
         description: "Run a shell command. If the command runs longer than 15 seconds (e.g. a dev server), it is automatically backgrounded and a process ID is returned. If a similar server is already running, it will be auto-stopped first. Use get_logs to view output without stopping, or stop_process to terminate. Use the 'cwd' parameter to run in a specific directory instead of chaining cd commands.",
@@ -102,3 +161,6 @@ export const TOOLS = [
         }
     }
 ];
+
+/** Tools that never change files or processes — the only ones offered in plan mode */
+export const READ_ONLY_TOOLS = ['read_file', 'list_dir', 'find_files', 'search_code', 'get_logs', 'list_processes', 'fetch_url'];
@@ -5,6 +5,10 @@ import path from 'path';
 import http from 'http';
 import https from 'https';
 import { generateDiff, compactDiff, DiffResult } from '../core/diff';
+import { checkpoints } from '../core/checkpoints';
+import { walkFiles, createGlobMatcher, splitGlobList, isBinaryBuffer, WalkEntry } from './walk';
+import { ImagePart } from '../core/types';
+import { MAX_IMAGE_BYTES, sniffImageType } from '../core/images';
 
 interface BgProcess {
     child: ExecaChildProcess;
@@ -17,6 +21,13 @@ interface BgProcess {
     port?: number; // track port for server dedup
 }
 
+/** A single search/replace hunk for edit_file */
+export interface FileEdit {
+    old_string: string;
+    new_string: string;
+    replace_all?: boolean;
+}
+
 /** Serializable process info that survives context compaction */
 export interface ProcessInfo {
     id: string;
@@ -27,7 +38,42 @@ export interface ProcessInfo {
     pid?: number;
 }
 
+/** Arguments accepted by read_file */
+export interface ReadArgs {
+    path?: string;
+    paths?: string[];
+    offset?: number;
+    limit?: number;
+    line_numbers?: boolean;
+}
+
+/** Arguments accepted by search_code */
+export interface SearchArgs {
+    pattern: string;
+    path?: string;
+    include?: string | string[];
+    exclude?: string | string[];
+    context?: number;
+    max_results?: number;
+    case_sensitive?: boolean;
+}
+
+/** Arguments accepted by find_files */
+export interface FindArgs {
+    pattern: string | string[];
+    path?: string;
+    sort?: 'mtime' | 'path';
+    max_results?: number;
+}
+
 const COMMAND_TIMEOUT = 15000;
+const READ_PAGE_LINES = 500;
+const READ_MAX_LINE_LENGTH = 2000;
+const READ_MAX_FILES = 20;
+const FIND_DEFAULT_MAX_RESULTS = 200;
+const SEARCH_DEFAULT_MAX_RESULTS = 100;
+const SEARCH_MAX_FILE_SIZE = 1024 * 1024;
+const SEARCH_MAX_LINE_LENGTH = 300;
 
 // Patterns that indicate a server/long-running process
 const SERVER_PATTERNS = [
@@ -45,6 +91,29 @@ function extractPort(text: string): number | undefined {
     return match ? parseInt(match[1]) : undefined;
 }
 
+const BINARY_SIGNATURES: [string, string][] = [
+    ['89504e47', 'PNG image'],
+    ['ffd8ff', 'JPEG image'],
+    ['47494638', 'GIF image'],
+    ['25504446', 'PDF document'],
+    ['504b0304', 'ZIP archive'],
+    ['1f8b', 'gzip archive'],
+    ['7f454c46', 'ELF executable'],
+    ['4d5a', 'Windows executable'],
+    ['0061736d', 'WebAssembly module'],
+];
+
+// Name a binary file from its magic bytes, falling back to the extension
+function describeBinary(filePath: string, buf: Buffer): string {
+    const hex = buf.subarray(0, 8).toString('hex');
+    for (const [sig, kind] of BINARY_SIGNATURES) {
+        if (hex.startsWith(sig)) return kind;
+    }
+    if (hex.startsWith('52494646') && buf.subarray(8, 12).toString('ascii') === 'WEBP') return 'WebP image';
+    const ext = path.extname(filePath).replace('.', '');
+    return ext ? `binary (.${ext})` : 'binary';
+}
+
 export class ToolExecutor {
     private cwd: string = process.cwd();
     private processes: Map<string, BgProcess> = new Map();
@@ -70,15 +139,25 @@ export class ToolExecutor {
         return snapshot;
     }
 
-    async execute(name: string, args: any): Promise<string> {
+    /**
+     * Run a tool.  Images that read_file finds are added to `images` for the
+     * caller to attach to the tool result.
+     */
+    async execute(name: string, args: any, images: ImagePart[] = []): Promise<string> {
         try {
             switch (name) {
                 case 'read_file':
-                    return await this.readFile(args.path);
+                    return await this.readFile(args, images);
                 case 'write_file':
                     return await this.writeFile(args.path, args.content);
+                case 'edit_file':
+                    return await this.editFile(args.path, args.edits);
                 case 'list_dir':
                     return await this.listDir(args.path);
+                case 'search_code':
+                    return await this.searchCode(args);
+                case 'find_files':
+                    return await this.findFiles(args);
                 case 'run_command':
                     return await this.runCommand(args.command, args.cwd);
                 case 'stop_process':
@@ -104,17 +183,81 @@ export class ToolExecutor {
         return path.resolve(this.cwd, p);
     }
 
-    private async readFile(filePath: string): Promise<string> {
+    private async readFile(args: ReadArgs, images: ImagePart[]): Promise<string> {
+        const paths = Array.isArray(args.paths) && args.paths.length > 0
+            ? args.paths
+            : Array.isArray(args.path) ? args.path as string[] : [args.path || ''];
+
+        if (paths.length === 1) {
+            return this.readSingleFile(paths[0], args, images);
+        }
+
+        // Multi-file read: one block per file, each in the usual single-file format
+        const selected = paths.slice(0, READ_MAX_FILES);
+        const blocks: string[] = [];
+        for (const p of selected) {
+            blocks.push(await this.readSingleFile(p, args, images));
+        }
+        let result = `FILES: ${selected.length}`;
+        if (paths.length > selected.length) result += ` (${paths.length - selected.length} skipped, max ${READ_MAX_FILES} per call)`;
+        return `${result}\n---\n${blocks.join('\n\n')}`;
+    }
+
+    private async readSingleFile(filePath: string, args: ReadArgs, images: ImagePart[]): Promise<string> {
         const resolved = this.resolvePath(filePath);
         if (!await fs.pathExists(resolved)) {
             return `ERROR: File not found\nPath: ${resolved}`;
         }
-        const content = await fs.readFile(resolved, 'utf-8');
+        const stat = await fs.stat(resolved);
+        if (stat.isDirectory()) {
+            return `ERROR: Path is a directory, use list_dir or find_files\nPath: ${resolved}`;
+        }
+
+        const buf = await fs.readFile(resolved);
+        const sizeStr = buf.length > 1024 ? `${(buf.length / 1024).toFixed(1)}KB` : `${buf.length}B`;
+
+        const mediaType = sniffImageType(buf);
+        if (mediaType && buf.length <= MAX_IMAGE_BYTES) {
+            images.push({ type: 'image', mediaType, data: buf.toString('base64'), source: resolved });
+            return `PATH: ${resolved}\nSIZE: ${sizeStr} | TYPE: ${describeBinary(resolved, buf)}\n---\nImage attached.`;
+        }
+
+        if (isBinaryBuffer(buf)) {
+            const kind = describeBinary(resolved, buf);
+            const preview = buf.subarray(0, 32).toString('hex').replace(/(..)/g, '$1 ').trim();
+            return `PATH: ${resolved}\nSIZE: ${sizeStr} | TYPE: ${kind}\n---\nBinary file, content not shown.\nFirst bytes: ${preview}`;
+        }
+
+        const content = buf.toString('utf-8');
         const lines = content.split('\n');
         const lineCount = lines.length;
-        const sizeBytes = Buffer.byteLength(content, 'utf-8');
-        const sizeStr = sizeBytes > 1024 ? `${(sizeBytes / 1024).toFixed(1)}KB` : `${sizeBytes}B`;
-        return `PATH: ${resolved}\nSIZE: ${sizeStr} | LINES: ${lineCount}\n---\n${content}`;
+
+        // No range requested and the file is small: return it whole, as before
+        const hasRange = args.offset !== undefined || args.limit !== undefined;
+        if (!hasRange && lineCount <= READ_PAGE_LINES && !args.line_numbers) {
+            return `PATH: ${resolved}\nSIZE: ${sizeStr} | LINES: ${lineCount}\n---\n${content}`;
+        }
+
+        const start = Math.max(1, Math.floor(args.offset || 1));
+        if (start > lineCount) {
+            return `ERROR: Offset ${start} is past the end of the file (${lineCount} lines)\nPath: ${resolved}`;
+        }
+        const limit = args.limit && args.limit > 0 ? Math.floor(args.limit) : READ_PAGE_LINES;
+        const end = Math.min(lineCount, start + limit - 1);
+
+        const width = String(end).length;
+        const page = lines.slice(start - 1, end).map((line, i) => {
+            const clipped = line.length > READ_MAX_LINE_LENGTH
+                ? line.substring(0, READ_MAX_LINE_LENGTH) + '... (line truncated)'
+                : line;
+            return args.line_numbers ? `${String(start + i).padStart(width)}| ${clipped}` : clipped;
+        });
+
+        let result = `PATH: ${resolved}\nSIZE: ${sizeStr} | LINES: ${lineCount}\nRANGE: ${start}-${end}\n---\n${page.join('\n')}`;
+        if (end < lineCount) {
+            result += `\n... (${lineCount - end} more lines, call read_file with offset=${end + 1} to continue)`;
+        }
+        return result;
     }
 
     public lastDiff: DiffResult | null = null;
@@ -132,6 +275,7 @@ export class ToolExecutor {
             }
         }
 
+        checkpoints.record(resolved);
         await fs.ensureDir(path.dirname(resolved));
         await fs.writeFile(resolved, content, 'utf-8');
 
@@ -146,6 +290,112 @@ export class ToolExecutor {
         return `${existed ? 'UPDATED' : 'CREATED'}: ${resolved}\nSIZE: ${sizeStr} | LINES: ${lines}\nCHANGES: +${diff.additions} -${diff.deletions}\n---\n${diffSummary}`;
     }
 
+    /**
+     * Compute the diff a write_file / edit_file call WOULD produce, without
+     * touching the disk. Used to preview changes in the permission prompt.
+     * Returns null for other tools or when the edit would fail anyway.
+     */
+    async previewChange(name: string, args: any): Promise<DiffResult | null> {
+        try {
+            if (name === 'write_file') {
+                const resolved = this.resolvePath(args.path);
+                const oldContent = await fs.pathExists(resolved) ? await fs.readFile(resolved, 'utf-8') : null;
+                return generateDiff(resolved, oldContent, String(args.content ?? ''));
+            }
+            if (name === 'edit_file') {
+                const edit = await this.computeEdit(args.path, args.edits);
+                if (typeof edit === 'string') return null;
+                return generateDiff(edit.resolved, edit.oldContent, edit.content);
+            }
+        } catch {
+            // Preview is best-effort
+        }
+        return null;
+    }
+
+    /**
+     * Apply search/replace edits to the in-memory content of a file.
+     * Returns an ERROR string if any edit fails to match (or matches ambiguously).
+     */
+    private async computeEdit(
+        filePath: string,
+        edits: FileEdit[] | string
+    ): Promise<{ resolved: string; oldContent: string; content: string } | string> {
+        const resolved = this.resolvePath(filePath);
+        if (!await fs.pathExists(resolved)) {
+            return `ERROR: File not found\nPath: ${resolved}\nUse write_file to create new files.`;
+        }
+
+        // Some models send the edits array as a JSON string
+        let editList: FileEdit[] = [];
+        if (typeof edits === 'string') {
+            try {
+                editList = JSON.parse(edits);
+            } catch {
+                return `ERROR: Invalid edits (expected an array of {old_string, new_string})\nPath: ${resolved}`;
+            }
+        } else if (Array.isArray(edits)) {
+            editList = edits;
+        }
+        if (!Array.isArray(editList) || editList.length === 0) {
+            return `ERROR: No edits provided\nPath: ${resolved}`;
+        }
+
+        const oldContent = await fs.readFile(resolved, 'utf-8');
+        let content = oldContent;
+
+        for (let i = 0; i < editList.length; i++) {
+            const edit = editList[i];
+            const label = editList.length > 1 ? ` (edit ${i + 1} of ${editList.length})` : '';
+            if (typeof edit?.old_string !== 'string' || typeof edit?.new_string !== 'string') {
+                return `ERROR: Edit is missing old_string or new_string${label}\nPath: ${resolved}`;
+            }
+            if (edit.old_string === '') {
+                return `ERROR: old_string must not be empty${label}\nPath: ${resolved}`;
+            }
+            if (edit.old_string === edit.new_string) {
+                return `ERROR: old_string and new_string are identical${label}\nPath: ${resolved}`;
+            }
+
+            const occurrences = content.split(edit.old_string).length - 1;
+            if (occurrences === 0) {
+                return `ERROR: old_string not found${label}\nPath: ${resolved}\nRead the file again and copy the exact text, including whitespace and indentation.`;
+            }
+            if (occurrences > 1 && !edit.replace_all) {
+                return `ERROR: old_string matches ${occurrences} locations${label}\nPath: ${resolved}\nInclude more surrounding lines to make it unique, or set replace_all to true.`;
+            }
+
+            content = edit.replace_all
+                ? content.split(edit.old_string).join(edit.new_string)
+                : content.replace(edit.old_string, () => edit.new_string);
+        }
+
+        return { resolved, oldContent, content };
+    }
+
+    /**
+     * Apply search/replace edits to an existing file.
+     * Edits are applied in order; if any edit fails nothing is written.
+     */
+    private async editFile(filePath: string, edits: FileEdit[] | string): Promise<string> {
+        const edit = await this.computeEdit(filePath, edits);
+        if (typeof edit === 'string') return edit;
+        const { resolved, oldContent, content } = edit;
+
+        checkpoints.record(resolved);
+        await fs.writeFile(resolved, content, 'utf-8');
+
+        const diff = generateDiff(resolved, oldContent, content);
+        this.lastDiff = diff;
+        const diffSummary = compactDiff(diff, 40);
+
+        const lines = content.split('\n').length;
+        const sizeBytes = Buffer.byteLength(content, 'utf-8');
+        const sizeStr = sizeBytes > 1024 ? `${(sizeBytes / 1024).toFixed(1)}KB` : `${sizeBytes}B`;
+
+        return `UPDATED: ${resolved}\nSIZE: ${sizeStr} | LINES: ${lines}\nCHANGES: +${diff.additions} -${diff.deletions}\n---\n${diffSummary}`;
+    }
+
     private async listDir(dirPath: string): Promise<string> {
         const resolved = this.resolvePath(dirPath);
         if (!await fs.pathExists(resolved)) {
@@ -165,6 +415,158 @@ export class ToolExecutor {
         return `PATH: ${resolved}\nENTRIES: ${listing.length} (${dirs.length} dirs, ${files.length} files)\n---\n${listing.join('\n')}`;
     }
 
+    /** Show a path relative to the cwd when it lives inside it */
+    private displayPath(absPath: string): string {
+        const rel = path.relative(this.cwd, absPath);
+        return rel && !rel.startsWith('..') && !path.isAbsolute(rel) ? rel.split(path.sep).join('/') : absPath;
+    }
+
+    /**
+     * Regex search across the working tree (pure Node, no ripgrep needed).
+     * Honours .gitignore, skips binary and very large files.
+     */
+    private async searchCode(args: SearchArgs): Promise<string> {
+        const root = this.resolvePath(args.path || '.');
+        if (!await fs.pathExists(root)) {
+            return `ERROR: Path not found\nPath: ${root}`;
+        }
+
+        let regex: RegExp;
+        try {
+            regex = new RegExp(args.pattern, args.case_sensitive === false ? 'i' : '');
+        } catch (error: any) {
+            return `ERROR: Invalid regex: ${error.message}\nPattern: ${args.pattern}`;
+        }
+
+        const includes = splitGlobList(args.include);
+        const excludes = splitGlobList(args.exclude);
+        const isIncluded = includes.length > 0 ? createGlobMatcher(includes) : () => true;
+        const isExcluded = excludes.length > 0 ? createGlobMatcher(excludes) : () => false;
+        const contextLines = Math.max(0, Math.min(args.context || 0, 10));
+        const maxResults = args.max_results && args.max_results > 0 ? args.max_results : SEARCH_DEFAULT_MAX_RESULTS;
+
+        // Searching a single file is allowed too
+        const stat = await fs.stat(root);
+        const files: AsyncIterable<WalkEntry> | WalkEntry[] = stat.isDirectory()
+            ? walkFiles(root)
+            : [{ absPath: root, relPath: path.basename(root) }];
+
+        const output: string[] = [];
+        let matchCount = 0;
+        let fileCount = 0;
+        let truncated = false;
+
+        for await (const file of files) {
+            if (!isIncluded(file.relPath) || isExcluded(file.relPath)) continue;
+
+            let buf: Buffer;
+            try {
+                const fileStat = await fs.stat(file.absPath);
+                if (fileStat.size > SEARCH_MAX_FILE_SIZE) continue;
+                buf = await fs.readFile(file.absPath);
+            } catch {
+                continue;
+            }
+            if (isBinaryBuffer(buf)) continue;
+
+            const lines = buf.toString('utf-8').split('\n');
+            const hits: number[] = [];
+            for (let i = 0; i < lines.length; i++) {
+                if (regex.test(lines[i])) {
+                    hits.push(i);
+                    if (matchCount + hits.length >= maxResults) {
+                        truncated = true;
+                        break;
+                    }
+                }
+            }
+            if (hits.length === 0) continue;
+
+            fileCount++;
+            matchCount += hits.length;
+            const shown = this.displayPath(file.absPath);
+            const hitSet = new Set(hits);
+            const clip = (line: string) => line.length > SEARCH_MAX_LINE_LENGTH
+                ? line.substring(0, SEARCH_MAX_LINE_LENGTH) + '...'
+                : line;
+
+            // Merge overlapping context windows, ripgrep-style ("--" between groups)
+            let lastPrinted = -1;
+            for (const hit of hits) {
+                const start = Math.max(0, hit - contextLines, lastPrinted + 1);
+                const end = Math.min(lines.length - 1, hit + contextLines);
+                if (contextLines > 0 && lastPrinted >= 0 && start > lastPrinted + 1) output.push('--');
+                for (let i = start; i <= end; i++) {
+                    const sep = hitSet.has(i) ? ':' : '-';
+                    output.push(`${shown}${sep}${i + 1}${sep} ${clip(lines[i].replace(/\r$/, ''))}`);
+                }
+                lastPrinted = end;
+            }
+            if (contextLines > 0) output.push('--');
+
+            if (truncated) break;
+        }
+
+        if (output[output.length - 1] === '--') output.pop();
+
+        let result = `SEARCH: ${args.pattern}\nPATH: ${root}\nMATCHES: ${matchCount} in ${fileCount} file${fileCount === 1 ? '' : 's'}`;
+        if (truncated) result += ` (stopped at ${maxResults}, narrow the search or raise max_results)`;
+        result += `\n---\n${output.length > 0 ? output.join('\n') : '(no matches)'}`;
+        return result;
+    }
+
+    /**
+     * Find files by glob pattern across the working tree.
+     * Skips ignored directories and .gitignore matches; newest files first by default.
+     */
+    private async findFiles(args: FindArgs): Promise<string> {
+        const root = this.resolvePath(args.path || '.');
+        if (!await fs.pathExists(root)) {
+            return `ERROR: Directory not found\nPath: ${root}`;
+        }
+        if (!(await fs.stat(root)).isDirectory()) {
+            return `ERROR: Not a directory\nPath: ${root}`;
+        }
+
+        const patterns = splitGlobList(args.pattern);
+        if (patterns.length === 0) {
+            return `ERROR: No pattern provided\nPath: ${root}`;
+        }
+        const matches = createGlobMatcher(patterns);
+        const sortBy = args.sort === 'path' ? 'path' : 'mtime';
+        const maxResults = args.max_results && args.max_results > 0 ? args.max_results : FIND_DEFAULT_MAX_RESULTS;
+
+        const found: { shown: string; mtime: number }[] = [];
+        for await (const file of walkFiles(root)) {
+            if (!matches(file.relPath)) continue;
+            let mtime = 0;
+            if (sortBy === 'mtime') {
+                try {
+                    mtime = (await fs.stat(file.absPath)).mtimeMs;
+                } catch {
+                    continue;
+                }
+            }
+            found.push({ shown: this.displayPath(file.absPath), mtime });
+        }
+
+        if (sortBy === 'mtime') {
+            found.sort((a, b) => b.mtime - a.mtime || a.shown.localeCompare(b.shown));
+        } else {
+            found.sort((a, b) => a.shown.localeCompare(b.shown));
+        }
+
+        const shown = found.slice(0, maxResults).map(f => f.shown);
+        let result = `FIND: ${patterns.join(', ')}\nPATH: ${root}\nFOUND: ${found.length} file${found.length === 1 ? '' : 's'}`;
+        if (found.length > maxResults) result += ` (showing ${maxResults})`;
+        result += ` | SORT: ${sortBy}`;
+        result += `\n---\n${shown.length > 0 ? shown.join('\n') : '(no files found)'}`;
+        if (found.length > maxResults) {
+            result += `\n... (${found.length - maxResults} more files, use a narrower pattern or raise max_results)`;
+        }
+        return result;
+    }
+
     /**
      * Auto-kill duplicate server processes before starting a new one.
      * If the new command matches a server pattern similar to an existing process, kill the old one.
@@ -286,6 +688,13 @@ export class ToolExecutor {
         }
     }
 
+    /** Stop every background process, e.g. before a headless run exits */
+    stopAll(): void {
+        for (const id of Array.from(this.processes.keys())) {
+            this.stopProcess(id);
+        }
+    }
+
     private stopProcess(processId: string): string {
         const proc = this.processes.get(processId);
         if (!proc) {
@@ -0,0 +1,231 @@
+
+import fs from 'fs-extra';
+import path from 'path';
+
+/** Directories that are never worth walking, even without a .gitignore */
+export const ALWAYS_IGNORED_DIRS = ['node_modules', '.git', '.hg', '.svn', 'dist', 'build', 'coverage', '.next', '.cache', '.cloude'];
+
+export interface WalkEntry {
+    absPath: string;
+    /** Path relative to the walk root, always using '/' separators */
+    relPath: string;
+}
+
+interface IgnoreRule {
+    /** Absolute directory the .gitignore lives in */
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+}
+
+const toPosix = (p: string): string => p.split(path.sep).join('/');
+
+const escapeRegex = (ch: string): string => /[.+^${}()|[\]\\]/.test(ch) ? '\\' + ch : ch;
+
+/**
+ * Convert a glob to a regex source string.
+ * Supports `**`, `*`, `?`, `[abc]` / `[!abc]` and `{a,b}` alternatives.
+ */
+function globSource(glob: string): string {
+    let re = '';
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches zero or more directories, a bare `**` matches anything
+                if (glob[i + 2] === '/') {
+                    re += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    re += '.*';
+                    i += 1;
+                }
+            } else {
+                re += '[^/]*';
+            }
+        } else if (c === '?') {
+            re += '[^/]';
+        } else if (c === '[') {
+            const close = glob.indexOf(']', i + 1);
+            if (close === -1) {
+                re += '\\[';
+                continue;
+            }
+            let cls = glob.substring(i + 1, close).replace(/\\/g, '\\\\');
+            if (cls.startsWith('!')) cls = '^' + cls.substring(1);
+            re += `[${cls}]`;
+            i = close;
+        } else if (c === '{') {
+            const close = glob.indexOf('}', i + 1);
+            if (close === -1) {
+                re += '\\{';
+                continue;
+            }
+            const alts = glob.substring(i + 1, close).split(',');
+            re += `(?:${alts.map(globSource).join('|')})`;
+            i = close;
+        } else {
+            re += escapeRegex(c);
+        }
+    }
+    return re;
+}
+
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(`^${globSource(glob)}$`);
+}
+
+/**
+ * Build a matcher for a list of globs.
+ * Globs without a '/' match the file name at any depth (like `*.ts`);
+ * globs with a '/' match against the full relative path (like `src/**\/*.tsx`).
+ */
+export function createGlobMatcher(globs: string[]): (relPath: string) => boolean {
+    const compiled = globs
+        .map(g => g.trim().replace(/^\.\//, ''))
+        .filter(Boolean)
+        .map(g => ({ regex: globToRegExp(g), basenameOnly: !g.includes('/') }));
+
+    return (relPath: string) => compiled.some(({ regex, basenameOnly }) =>
+        regex.test(basenameOnly ? path.posix.basename(relPath) : relPath)
+    );
+}
+
+/** Split a comma-separated glob list, leaving commas inside `{a,b}` alone */
+export function splitGlobList(value: string | string[] | undefined): string[] {
+    if (!value) return [];
+    if (Array.isArray(value)) return value.map(String).filter(v => v.trim());
+
+    const globs: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of value) {
+        if (ch === '{') depth++;
+        if (ch === '}') depth = Math.max(0, depth - 1);
+        if (ch === ',' && depth === 0) {
+            globs.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    globs.push(current);
+    return globs.map(g => g.trim()).filter(Boolean);
+}
+
+function parseGitignore(base: string, content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of content.split(/\r?\n/)) {
+        let line = raw.replace(/\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+
+        const negate = line.startsWith('!');
+        if (negate) line = line.substring(1);
+        const dirOnly = line.endsWith('/');
+        if (dirOnly) line = line.replace(/\/+$/, '');
+
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = line.includes('/');
+        line = line.replace(/^\//, '');
+        if (!line) continue;
+
+        const glob = anchored ? line : `**/${line}`;
+        rules.push({ base, regex: globToRegExp(glob), negate, dirOnly });
+    }
+    return rules;
+}
+
+async function loadGitignore(dir: string): Promise<IgnoreRule[]> {
+    const file = path.join(dir, '.gitignore');
+    try {
+        if (!await fs.pathExists(file)) return [];
+        return parseGitignore(dir, await fs.readFile(file, 'utf-8'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Collect .gitignore rules from the ancestors of `root`, stopping at the
+ * repository root (the first directory containing .git).
+ */
+async function loadAncestorRules(root: string): Promise<IgnoreRule[]> {
+    if (await fs.pathExists(path.join(root, '.git'))) return [];
+
+    const dirs: string[] = [];
+    let dir = root;
+    while (dir !== path.dirname(dir)) {
+        dir = path.dirname(dir);
+        dirs.unshift(dir);
+        if (await fs.pathExists(path.join(dir, '.git'))) {
+            const rules: IgnoreRule[] = [];
+            for (const d of dirs) rules.push(...await loadGitignore(d));
+            return rules;
+        }
+    }
+
+    // Not inside a repository — ancestors' .gitignore files don't apply
+    return [];
+}
+
+function isIgnored(rules: IgnoreRule[], absPath: string, isDir: boolean): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDir) continue;
+        const rel = toPosix(path.relative(rule.base, absPath));
+        if (!rel || rel.startsWith('..')) continue;
+        if (rule.regex.test(rel)) ignored = !rule.negate;
+    }
+    return ignored;
+}
+
+/**
+ * Recursively yield every file under `root`, skipping ALWAYS_IGNORED_DIRS,
+ * symlinks and anything matched by .gitignore files along the way.
+ * Entries are yielded in sorted, depth-first order.
+ */
+export async function* walkFiles(root: string, respectGitignore: boolean = true): AsyncGenerator<WalkEntry> {
+    const baseRules = respectGitignore ? await loadAncestorRules(root) : [];
+    const stack: { dir: string; rules: IgnoreRule[] }[] = [{ dir: root, rules: baseRules }];
+
+    while (stack.length > 0) {
+        const { dir, rules: parentRules } = stack.pop()!;
+        const rules = respectGitignore ? [...parentRules, ...await loadGitignore(dir)] : parentRules;
+
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+
+        const subdirs: string[] = [];
+        for (const entry of entries) {
+            const absPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (ALWAYS_IGNORED_DIRS.includes(entry.name)) continue;
+                if (isIgnored(rules, absPath, true)) continue;
+                subdirs.push(absPath);
+            } else if (entry.isFile()) {
+                if (isIgnored(rules, absPath, false)) continue;
+                yield { absPath, relPath: toPosix(path.relative(root, absPath)) };
+            }
+        }
+
+        // Push in reverse so the alphabetically-first directory is walked next
+        for (let i = subdirs.length - 1; i >= 0; i--) {
+            stack.push({ dir: subdirs[i], rules });
+        }
+    }
+}
+
+/** Heuristic binary check: a NUL byte in the first 8KB */
+export function isBinaryBuffer(buf: Buffer): boolean {
+    const len = Math.min(buf.length, 8000);
+    for (let i = 0; i < len; i++) {
+        if (buf[i] === 0) return true;
+    }
+    return false;
+}
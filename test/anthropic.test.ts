@@ -0,0 +1,125 @@
+import http from 'http';
+import { AnthropicProvider } from '../src/providers/anthropic';
+import { Message, StreamEvent } from '../src/core/types';
+import { StubServer, startStub, sendJson } from './stub-server';
+
+function sendEvents(res: http.ServerResponse, events: any[]): void {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.end(events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+}
+
+const TOOL_ROUND: Message[] = [
+    { role: 'user', content: 'Look at both files' },
+    {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+            { id: 'toolu_1', name: 'read_file', arguments: { path: 'a.ts' } },
+            { id: 'toolu_2', name: 'read_file', arguments: { path: 'missing.ts' } },
+        ],
+    },
+    { role: 'tool', content: 'PATH: a.ts\n---\nexport {}', tool_call_id: 'toolu_1', tool_name: 'read_file' },
+    { role: 'tool', content: 'ERROR: File not found: missing.ts', tool_call_id: 'toolu_2', tool_name: 'read_file' },
+];
+
+describe('AnthropicProvider against a mock Messages API', () => {
+    let stub: StubServer;
+    let reply: (res: http.ServerResponse) => void;
+    let provider: AnthropicProvider;
+
+    beforeEach(async () => {
+        reply = res => sendJson(res, 200, {
+            content: [{ type: 'text', text: 'Done.' }],
+            usage: { input_tokens: 10, output_tokens: 2 },
+        });
+        stub = await startStub((req, res) => reply(res));
+        provider = new AnthropicProvider('test-key', 'claude-sonnet-4-5', stub.url);
+    });
+
+    afterEach(() => stub.close());
+
+    it('merges consecutive tool results into one user turn', async () => {
+        await provider.chatWithTools(TOOL_ROUND, []);
+
+        const { messages } = stub.requests[0].body;
+        expect(messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user']);
+        expect(messages[2].content.map((b: any) => [b.type, b.tool_use_id])).toEqual([
+            ['tool_result', 'toolu_1'],
+            ['tool_result', 'toolu_2'],
+        ]);
+        expect(stub.requests[0].headers['x-api-key']).toBe('test-key');
+    });
+
+    it('marks results that start with ERROR: as errors', async () => {
+        await provider.chatWithTools(TOOL_ROUND, []);
+
+        const [ok, failed] = stub.requests[0].body.messages[2].content;
+        expect(ok.is_error).toBeUndefined();
+        expect(failed).toMatchObject({ is_error: true, content: 'ERROR: File not found: missing.ts' });
+    });
+
+    it('drops empty assistant text', async () => {
+        await provider.chatWithTools([
+            ...TOOL_ROUND,
+            { role: 'assistant', content: '   ' },
+            { role: 'user', content: 'Go on' },
+        ], []);
+
+        const { messages } = stub.requests[0].body;
+        // The whitespace-only answer leaves no assistant turn, so the user turns merge
+        expect(messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user']);
+        expect(messages[1].content.map((b: any) => b.type)).toEqual(['tool_use', 'tool_use']);
+        expect(messages[2].content[2]).toEqual({ type: 'text', text: 'Go on' });
+    });
+
+    it('assembles a streamed response into tool calls and usage', async () => {
+        reply = res => sendEvents(res, [
+            { type: 'message_start', message: { usage: { input_tokens: 100, cache_read_input_tokens: 50, output_tokens: 1 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Reading ' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'it.' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_9', name: 'read_file', input: {} } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"src/index.ts"}' } },
+            { type: 'content_block_stop', index: 1 },
+            { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 30 } },
+            { type: 'message_stop' },
+        ]);
+
+        const events: StreamEvent[] = [];
+        for await (const event of provider.streamWithTools([{ role: 'user', content: 'Read the entry point' }], [])) {
+            events.push(event);
+        }
+
+        expect(stub.requests[0].body.stream).toBe(true);
+        expect(events.filter(e => e.type === 'text').map(e => (e as any).delta)).toEqual(['Reading ', 'it.']);
+        expect(events[events.length - 1]).toEqual({
+            type: 'done',
+            response: {
+                type: 'tool_use',
+                content: 'Reading it.',
+                tool_calls: [{ id: 'toolu_9', name: 'read_file', arguments: { path: 'src/index.ts' } }],
+                usage: { promptTokens: 150, completionTokens: 30, cachedTokens: 50 },
+            },
+        });
+    });
+
+    it('falls back to the built-in model list when the models endpoint fails', async () => {
+        reply = res => sendJson(res, 401, { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } });
+
+        const models = await AnthropicProvider.fetchModels('bad-key', stub.url);
+
+        expect(stub.requests[0].url).toBe('/v1/models?limit=100');
+        expect(models.map(m => m.id)).toContain('claude-sonnet-4-5');
+        expect(models.every(m => m.contextWindow === 200000)).toBe(true);
+    });
+
+    it('lists models from the models endpoint', async () => {
+        reply = res => sendJson(res, 200, { data: [{ id: 'claude-opus-4-1', display_name: 'Claude Opus 4.1' }] });
+
+        const models = await AnthropicProvider.fetchModels('test-key', stub.url);
+
+        expect(models).toEqual([{ id: 'claude-opus-4-1', name: 'Claude Opus 4.1', contextWindow: 200000 }]);
+    });
+});
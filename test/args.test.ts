@@ -0,0 +1,23 @@
+import { parseCliArgs } from '../src/args';
+
+describe('parseCliArgs stdin handling', () => {
+    it('reads stdin as the prompt when no prompt is given', () => {
+        expect(parseCliArgs(['-p'])).toMatchObject({ print: true, readStdin: true });
+    });
+
+    it('does not read stdin when a prompt is given', () => {
+        expect(parseCliArgs(['-p', 'hello'])).toMatchObject({ prompt: 'hello', readStdin: false });
+    });
+
+    it('reads stdin for -p -', () => {
+        expect(parseCliArgs(['-p', '-', '--yes'])).toMatchObject({ readStdin: true, yes: true });
+    });
+
+    it('appends stdin to a prompt when - is among the arguments', () => {
+        expect(parseCliArgs(['-p', 'explain this', '-'])).toMatchObject({ prompt: 'explain this', readStdin: true });
+    });
+
+    it('rejects - without -p', () => {
+        expect(() => parseCliArgs(['-'])).toThrow('only applies with -p');
+    });
+});
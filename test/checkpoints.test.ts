@@ -0,0 +1,57 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { CheckpointManager } from '../src/core/checkpoints';
+
+describe('CheckpointManager.rewind', () => {
+    let projectDir: string;
+    let manager: CheckpointManager;
+    const file = (name: string) => path.join(projectDir, name);
+
+    beforeEach(() => {
+        projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cloude-checkpoints-'));
+        manager = new CheckpointManager(projectDir);
+    });
+
+    afterEach(() => fs.removeSync(projectDir));
+
+    function agentWrites(prompt: string, writes: Record<string, string>) {
+        manager.beginTurn(prompt);
+        for (const [name, content] of Object.entries(writes)) {
+            manager.record(file(name));
+            fs.writeFileSync(file(name), content);
+        }
+    }
+
+    it('restores edited files, deletes created ones and removes the checkpoint', () => {
+        fs.writeFileSync(file('a.txt'), 'original');
+        agentWrites('edit a, create b', { 'a.txt': 'changed', 'b.txt': 'new' });
+
+        const result = manager.undo();
+
+        expect(fs.readFileSync(file('a.txt'), 'utf8')).toBe('original');
+        expect(fs.existsSync(file('b.txt'))).toBe(false);
+        expect(result).toMatchObject({ checkpoints: 1, failed: [], kept: [] });
+        expect(manager.list()).toHaveLength(0);
+    });
+
+    it('keeps a checkpoint whose files failed to restore', () => {
+        fs.writeFileSync(file('a.txt'), 'original');
+        agentWrites('edit a', { 'a.txt': 'changed' });
+        const [checkpoint] = manager.list();
+        // A directory in the file's place makes the copy back fail
+        fs.removeSync(file('a.txt'));
+        fs.ensureDirSync(file('a.txt'));
+
+        const result = manager.undo();
+
+        expect(result.failed).toEqual([file('a.txt')]);
+        expect(result.kept).toEqual([checkpoint.id]);
+        expect(manager.list().map(cp => cp.id)).toEqual([checkpoint.id]);
+
+        // Once the obstacle is gone the kept checkpoint can still be reverted
+        fs.removeSync(file('a.txt'));
+        expect(manager.undo()).toMatchObject({ failed: [], kept: [] });
+        expect(fs.readFileSync(file('a.txt'), 'utf8')).toBe('original');
+    });
+});
@@ -0,0 +1,48 @@
+import { BaseProvider } from '../src/providers/base';
+import { getContextUsage } from '../src/core/context';
+import { ChatResponse, Message } from '../src/core/types';
+
+class StubProvider extends BaseProvider {
+    get name() { return 'Stub'; }
+    async validateConnection() { return true; }
+    async chat() { return ''; }
+    async chatWithTools(): Promise<ChatResponse> { return { type: 'text', content: '' }; }
+}
+
+const LONG_HISTORY: Message[] = Array.from({ length: 20 }, (_, i) => ({
+    role: i % 2 ? 'assistant' : 'user',
+    content: `message ${i} `.repeat(200),
+}));
+
+describe('context calibration', () => {
+    let provider: StubProvider;
+    const used = () => getContextUsage(provider.conversationHistory, provider.systemPrompt, 'stub-model', provider.contextCalibration).usedTokens;
+
+    beforeEach(() => {
+        provider = new StubProvider('key', 'stub-model');
+        provider.conversationHistory = [...LONG_HISTORY];
+        // The API counted 5000 tokens more than the estimate (tool schemas, tokenizer)
+        const estimated = used();
+        provider.contextCalibration = { promptTokens: estimated + 5000, estimatedTokens: estimated };
+    });
+
+    it('adds the measured offset to the estimate', () => {
+        provider.addMessage('user', 'one more');
+        expect(used()).toBeGreaterThan(5000);
+    });
+
+    it('is dropped when the history is cleared', () => {
+        provider.clearHistory();
+        provider.addMessage('user', 'hello');
+
+        expect(provider.contextCalibration).toBeUndefined();
+        expect(used()).toBeLessThan(50);
+    });
+
+    it('is dropped when the history is replaced', () => {
+        provider.setHistory([{ role: 'user', content: 'restored' }]);
+
+        expect(provider.contextCalibration).toBeUndefined();
+        expect(used()).toBeLessThan(50);
+    });
+});
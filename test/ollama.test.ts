@@ -0,0 +1,149 @@
+import { OllamaProvider } from '../src/providers/ollama';
+import { PullProgress } from '../src/core/types';
+import { StubServer, startStub, sendJson, sendNdjson } from './stub-server';
+
+async function collect(progress: AsyncGenerator<PullProgress>): Promise<PullProgress[]> {
+    const seen: PullProgress[] = [];
+    for await (const item of progress) seen.push(item);
+    return seen;
+}
+
+describe('OllamaProvider model management', () => {
+    let stub: StubServer;
+    let pullLines: any[];
+    let deleteStatus: number;
+
+    beforeEach(async () => {
+        pullLines = [];
+        deleteStatus = 200;
+        stub = await startStub((req, res) => {
+            if (req.url === '/api/pull') return sendNdjson(res, pullLines);
+            if (req.url === '/api/delete') {
+                return deleteStatus === 200 ? sendJson(res, 200, {}) : sendJson(res, deleteStatus, { error: `model '${req.body.model}' not found` });
+            }
+            sendJson(res, 404, { error: 'not found' });
+        });
+    });
+
+    afterEach(() => stub.close());
+
+    it('streams pull progress until success', async () => {
+        pullLines = [
+            { status: 'pulling manifest' },
+            { status: 'pulling abc123', digest: 'sha256:abc123', total: 1000, completed: 0 },
+            { status: 'pulling abc123', digest: 'sha256:abc123', total: 1000, completed: 600 },
+            { status: 'pulling abc123', digest: 'sha256:abc123', total: 1000, completed: 1000 },
+            { status: 'verifying sha256 digest' },
+            { status: 'success' },
+        ];
+
+        const progress = await collect(OllamaProvider.pullModel(stub.url, 'qwen3:8b'));
+
+        expect(stub.requests[0]).toMatchObject({ method: 'POST', url: '/api/pull', body: { model: 'qwen3:8b', stream: true } });
+        expect(progress.map(p => p.status)).toEqual([
+            'pulling manifest', 'pulling abc123', 'pulling abc123', 'pulling abc123', 'verifying sha256 digest', 'success',
+        ]);
+        expect(progress[2]).toEqual({ status: 'pulling abc123', completed: 600, total: 1000 });
+    });
+
+    it('throws the error line of a failed pull', async () => {
+        pullLines = [{ status: 'pulling manifest' }, { error: 'pull model manifest: file does not exist' }];
+
+        const seen: PullProgress[] = [];
+        await expect((async () => {
+            for await (const item of OllamaProvider.pullModel(stub.url, 'nope:1b')) seen.push(item);
+        })()).rejects.toThrow('pull model manifest: file does not exist');
+        expect(seen).toEqual([{ status: 'pulling manifest', completed: undefined, total: undefined }]);
+    });
+
+    it('throws when the pull stream ends before success', async () => {
+        pullLines = [{ status: 'pulling manifest' }, { status: 'pulling abc123', total: 1000, completed: 10 }];
+
+        await expect(collect(OllamaProvider.pullModel(stub.url, 'qwen3:8b'))).rejects.toThrow('Pull of qwen3:8b ended before it finished');
+    });
+
+    it('deletes a model', async () => {
+        await OllamaProvider.deleteModel(stub.url, 'qwen3:8b');
+        expect(stub.requests[0]).toMatchObject({ method: 'DELETE', url: '/api/delete', body: { model: 'qwen3:8b' } });
+    });
+
+    it('throws with the status and Ollama message when a delete fails', async () => {
+        deleteStatus = 404;
+        await expect(OllamaProvider.deleteModel(stub.url, 'missing:1b')).rejects.toMatchObject({
+            message: "model 'missing:1b' not found",
+            status: 404,
+        });
+    });
+});
+
+describe('OllamaProvider.fetchModels', () => {
+    let stub: StubServer;
+
+    beforeEach(async () => {
+        stub = await startStub((req, res) => {
+            if (req.url === '/api/tags') {
+                return sendJson(res, 200, {
+                    models: [
+                        { name: 'qwen3:8b', size: 5200000000, modified_at: '2025-01-01T00:00:00Z', details: { families: ['qwen3'], quantization_level: 'Q4_K_M' } },
+                        { name: 'llava:7b', size: 4700000000, details: { families: ['llama', 'clip'], quantization_level: 'Q4_0' } },
+                        { name: 'nomic-embed-text:latest', size: 274000000, details: { families: ['nomic-bert'] } },
+                        { name: 'old:1b', size: 1000, details: {} },
+                    ],
+                });
+            }
+            if (req.url === '/api/show') {
+                switch (req.body.model) {
+                    case 'qwen3:8b':
+                        return sendJson(res, 200, {
+                            model_info: { 'general.architecture': 'qwen3', 'qwen3.context_length': 40960 },
+                            capabilities: ['completion', 'tools', 'thinking'],
+                        });
+                    case 'llava:7b':
+                        return sendJson(res, 200, {
+                            model_info: { 'general.architecture': 'llama', 'llama.context_length': 32768 },
+                            capabilities: ['completion', 'vision'],
+                        });
+                    case 'nomic-embed-text:latest':
+                        return sendJson(res, 200, {
+                            model_info: { 'general.architecture': 'nomic-bert', 'nomic-bert.context_length': 2048 },
+                            capabilities: ['embedding'],
+                        });
+                    default:
+                        // Older servers: no capabilities, and here no model_info either
+                        return sendJson(res, 500, { error: 'boom' });
+                }
+            }
+            sendJson(res, 404, { error: 'not found' });
+        });
+    });
+
+    afterEach(() => stub.close());
+
+    it('reads installed models with context length and capabilities from /api/show', async () => {
+        const models = await OllamaProvider.fetchModels('', stub.url);
+        const byId = Object.fromEntries(models.map(m => [m.id, m]));
+
+        expect(models.map(m => m.id)).toEqual(['llava:7b', 'nomic-embed-text:latest', 'old:1b', 'qwen3:8b']);
+        expect(byId['qwen3:8b']).toMatchObject({
+            contextWindow: 40960,
+            installed: true,
+            size: 5200000000,
+            quantization: 'Q4_K_M',
+            capabilities: { tools: true, reasoning: true },
+        });
+        expect(byId['llava:7b']).toMatchObject({ contextWindow: 32768, capabilities: { tools: false, vision: true } });
+        expect(byId['nomic-embed-text:latest']).toMatchObject({ contextWindow: 2048, capabilities: { kind: 'embedding', tools: false } });
+        // /api/show failed: the default context window, capabilities unknown
+        expect(byId['old:1b'].contextWindow).toBe(8192);
+        expect(byId['old:1b'].capabilities.tools).toBeUndefined();
+
+        const shown = stub.requests.filter(r => r.url === '/api/show').map(r => r.body.model).sort();
+        expect(shown).toEqual(['llava:7b', 'nomic-embed-text:latest', 'old:1b', 'qwen3:8b']);
+    });
+
+    it('falls back to suggested models when the server cannot be reached', async () => {
+        await stub.close();
+        const models = await OllamaProvider.fetchModels('', stub.url);
+        expect(models).toEqual(OllamaProvider.fallbackModels());
+    });
+});
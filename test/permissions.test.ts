@@ -0,0 +1,143 @@
+import { config } from '../src/core/config';
+import { evaluatePermission, suggestPattern } from '../src/core/permissions';
+import { PermissionRules } from '../src/core/types';
+
+function useRules(rules: PermissionRules) {
+    jest.spyOn(config, 'getPermissionRules').mockReturnValue({ allow: rules.allow || [], deny: rules.deny || [] });
+}
+
+const run = (command: string) => evaluatePermission('run_command', { command }).verdict;
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('run_command allow rules', () => {
+    beforeEach(() => useRules({ allow: [{ tool: 'run_command', pattern: 'echo hi*' }] }));
+
+    it('allows a command matching the pattern', () => {
+        expect(run('echo hi there')).toBe('allow');
+    });
+
+    it.each([
+        ['&', 'echo hi & echo pwned'],
+        ['&&', 'echo hi && echo pwned'],
+        ['||', 'echo hi || echo pwned'],
+        [';', 'echo hi; echo pwned'],
+        ['|', 'echo hi | sh'],
+        ['newline', 'echo hi\necho pwned'],
+        ['carriage return', 'echo hi\recho pwned'],
+        ['>', 'echo hi > pwned.txt'],
+        ['<', 'echo hi < /etc/passwd'],
+        ['<( )', 'echo hi <(cat /etc/passwd)'],
+        ['( )', 'echo hi (subshell)'],
+        ['backticks', 'echo hi `whoami`'],
+        ['$( )', 'echo hi $(whoami)'],
+        ['$', 'echo hi $HOME'],
+    ])('asks when the command contains %s', (_operator, command) => {
+        expect(run(command)).toBe('ask');
+    });
+
+    it('allows a command with operators only through an exact rule', () => {
+        useRules({ allow: [{ tool: 'run_command', pattern: 'npm run build && npm test' }] });
+        expect(run('npm run build && npm test')).toBe('allow');
+        expect(run('npm run build && npm test && rm -rf /')).toBe('ask');
+    });
+
+    it('does not let a wildcard rule containing an operator cover other commands', () => {
+        useRules({ allow: [{ tool: 'run_command', pattern: 'echo hi &*' }] });
+        expect(run('echo hi & echo pwned')).toBe('ask');
+    });
+});
+
+describe('run_command deny rules', () => {
+    beforeEach(() => useRules({
+        allow: [{ tool: 'run_command' }],
+        deny: [{ tool: 'run_command', pattern: 'rm *' }],
+    }));
+
+    it.each([
+        'echo ok & rm -rf build',
+        'echo ok\nrm -rf build',
+        'echo ok > out.txt; rm -rf build',
+        'echo $(rm -rf build)',
+        'cat <(rm -rf build)',
+    ])('catches the pattern after an operator: %j', command => {
+        expect(run(command)).toBe('deny');
+    });
+
+    it.each([
+        'sudo rm -rf /',
+        'sudo -u root rm -rf /',
+        'env FOO=1 rm -rf /',
+        'command rm -rf /',
+        'rm -fr /',
+        'rm  -rf /',
+        'rm\t-rf /',
+        '/bin/rm -rf /',
+        'nohup /usr/bin/rm -fr /',
+        'echo ok && sudo rm -fr /',
+    ])('sees through the spelling of a denied command: %j', command => {
+        useRules({ allow: [{ tool: 'run_command' }], deny: [{ tool: 'run_command', pattern: 'rm -rf *' }] });
+        expect(run(command)).toBe('deny');
+    });
+
+    it('still matches deny rules written for the wrapper itself', () => {
+        useRules({ allow: [{ tool: 'run_command' }], deny: [{ tool: 'run_command', pattern: 'sudo *' }] });
+        expect(run('sudo  rm -rf build')).toBe('deny');
+        expect(run('rm -rf build')).toBe('allow');
+    });
+});
+
+describe('run_command path wildcards', () => {
+    beforeEach(() => useRules({ allow: [{ tool: 'run_command', pattern: 'rm -rf build/*' }] }));
+
+    it('allows one path inside the directory', () => {
+        expect(run('rm -rf build/cache')).toBe('allow');
+        expect(run('rm -rf build/cache/v2')).toBe('allow');
+        expect(run('rm -rf build/..cache')).toBe('allow');
+    });
+
+    it.each([
+        'rm -rf build/x /',
+        'rm -rf build/x ~/projects',
+        'rm -rf build/../..',
+        'rm -rf build/..',
+        'rm -rf build/cache/../../../home',
+    ])('does not stretch to %j', command => {
+        expect(run(command)).toBe('ask');
+    });
+
+    it('keeps a mid-word wildcard spanning arguments', () => {
+        useRules({ allow: [{ tool: 'run_command', pattern: 'npm test*' }] });
+        expect(run('npm test -- --watch')).toBe('allow');
+    });
+});
+
+describe('suggestPattern for run_command', () => {
+    const suggest = (command: string) => suggestPattern('run_command', { command });
+
+    it('widens a subcommand with arguments to a prefix', () => {
+        expect(suggest('npm test -- --watch')).toBe('npm test*');
+    });
+
+    it('suggests the exact command when the second word is a flag', () => {
+        expect(suggest('rm -rf build')).toBe('rm -rf build');
+        expect(suggest('python -c "import os; os.remove(\'x\')"')).toBe('python -c "import os; os.remove(\'x\')"');
+    });
+
+    it('globs only a trailing path argument', () => {
+        // `build/*` covers one path inside build/ (see the path wildcard tests above)
+        expect(suggest('rm -rf build/cache')).toBe('rm -rf build/*');
+        expect(suggest('rm -rf ../outside/dir')).toBe('rm -rf ../outside/dir');
+        expect(suggest('rm -rf /tmp/x')).toBe('rm -rf /tmp/x');
+    });
+
+    it('never suggests a bare binary wildcard', () => {
+        for (const command of ['ls', 'rm -rf build', 'python -V', 'git status', 'make']) {
+            expect(suggest(command)).not.toMatch(/^\S+\*$/);
+        }
+    });
+
+    it('suggests the exact command when it contains shell operators', () => {
+        expect(suggest('npm run build && npm test')).toBe('npm run build && npm test');
+    });
+});
@@ -0,0 +1,26 @@
+import { RequestScheduler } from '../src/providers/scheduler';
+
+describe('RequestScheduler retries', () => {
+    const failing = () => {
+        const send = jest.fn(async () => {
+            throw Object.assign(new Error('503 overloaded'), { status: 503 });
+        });
+        return send;
+    };
+
+    it('retries retryable errors up to its own limit', async () => {
+        const scheduler = new RequestScheduler({ name: 'Test', maxRetries: 3, baseDelayMs: 0 });
+        const send = failing();
+
+        await expect(scheduler.schedule(send)).rejects.toThrow('Test request failed after 4 attempts: 503 overloaded');
+        expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    it('lets a request lower the retry limit', async () => {
+        const scheduler = new RequestScheduler({ name: 'Test', maxRetries: 3, baseDelayMs: 0 });
+        const send = failing();
+
+        await expect(scheduler.schedule(send, { maxRetries: 0 })).rejects.toThrow('Test request failed: 503 overloaded');
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,59 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+export interface StubServer {
+    url: string;
+    requests: StubRequest[];
+    close: () => Promise<void>;
+}
+
+/**
+ * A local HTTP server for provider tests.  The handler gets each request
+ * with its JSON body parsed; everything received is kept in `requests`.
+ */
+export async function startStub(handler: (req: StubRequest, res: http.ServerResponse) => void): Promise<StubServer> {
+    const requests: StubRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            let body: any = raw;
+            try {
+                body = raw ? JSON.parse(raw) : undefined;
+            } catch {
+                // Not JSON — keep the text
+            }
+            const request = { method: req.method || '', url: req.url || '', headers: req.headers, body };
+            requests.push(request);
+            handler(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/** Newline-delimited JSON, one object per line */
+export function sendNdjson(res: http.ServerResponse, lines: any[]): void {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    res.end(lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+}